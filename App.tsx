@@ -2,10 +2,14 @@ import React, { useState } from 'react';
 import MainMenu from './components/MainMenu';
 import BattleMode from './components/BattleMode';
 import PracticeMode from './components/PracticeMode';
-import { AppMode } from './types';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import MockTestMode from './components/MockTestMode';
+import DeckLibrary from './components/DeckLibrary';
+import { AppMode, Deck } from './types';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.MENU);
+  const [activeDeck, setActiveDeck] = useState<Deck | null>(null); // Deck being played
 
   const renderContent = () => {
     switch (mode) {
@@ -19,7 +23,34 @@ const App: React.FC = () => {
       case AppMode.PRACTICE_SETUP:
       case AppMode.PRACTICE_GAME:
         return <PracticeMode onBack={() => setMode(AppMode.MENU)} />;
+
+      case AppMode.PRACTICE_RESUME:
+        return <PracticeMode resume onBack={() => setMode(AppMode.MENU)} />;
+      
+      case AppMode.MOCK_TEST:
+        return <MockTestMode onBack={() => setMode(AppMode.MENU)} />;
+      
+      case AppMode.REVIEW:
+        return <PracticeMode reviewMode onBack={() => setMode(AppMode.MENU)} />;
+      
+      case AppMode.ANALYTICS:
+        return <AnalyticsDashboard onBack={() => setMode(AppMode.MENU)} />;
       
+      case AppMode.DECKS:
+        return (
+          <DeckLibrary
+            onBack={() => setMode(AppMode.MENU)}
+            onPractice={(deck) => { setActiveDeck(deck); setMode(AppMode.DECK_PRACTICE); }}
+            onBattle={(deck) => { setActiveDeck(deck); setMode(AppMode.DECK_BATTLE); }}
+          />
+        );
+
+      case AppMode.DECK_PRACTICE:
+        return activeDeck && <PracticeMode deck={activeDeck} onBack={() => setMode(AppMode.DECKS)} />;
+
+      case AppMode.DECK_BATTLE:
+        return activeDeck && <BattleMode deck={activeDeck} onBack={() => setMode(AppMode.DECKS)} />;
+
       default:
         return <MainMenu onModeSelect={setMode} />;
     }
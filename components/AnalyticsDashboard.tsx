@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PerformanceStats, PracticeAttempt, Subject, TrendPoint } from '../types';
+import { getAttempts, getChapterStats, getSubjectStats } from '../services/attemptHistory';
+import { getChapters } from '../services/syllabus';
+
+interface AnalyticsDashboardProps {
+  onBack: () => void;
+}
+
+const TrendLine: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+  const width = 160;
+  const height = 40;
+
+  if (points.length < 2) {
+    return <div className="text-xs text-slate-500 h-10 flex items-center">Not enough attempts for a trend</div>;
+  }
+
+  const first = points[0].completedAt;
+  const span = points[points.length - 1].completedAt - first || 1;
+  const coords = points.map(p => {
+    const x = ((p.completedAt - first) / span) * width;
+    const y = height - p.accuracy * height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const improving = points[points.length - 1].accuracy >= points[0].accuracy;
+
+  return (
+    <svg width={width} height={height} viewBox={`-2 -2 ${width + 4} ${height + 4}`} className="overflow-visible">
+      <polyline
+        points={coords.join(' ')}
+        fill="none"
+        stroke={improving ? '#4ade80' : '#f87171'}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+};
+
+const StatsRow: React.FC<{ title: string; stats: PerformanceStats }> = ({ title, stats }) => (
+  <div className="glass-panel p-4 rounded-xl flex flex-col md:flex-row md:items-center gap-4">
+    <div className="flex-1 min-w-0">
+      <h4 className="font-semibold text-slate-100 truncate">{title}</h4>
+      <p className="text-xs text-slate-500 mt-1">
+        {stats.attempted} questions • {stats.trend.length} attempt{stats.trend.length === 1 ? '' : 's'}
+      </p>
+    </div>
+    <div className="flex gap-6 text-center">
+      <div>
+        <div className="text-xs uppercase tracking-wider text-slate-500">Accuracy</div>
+        <div className={`font-mono font-bold ${stats.accuracy >= 0.7 ? 'text-green-400' : stats.accuracy >= 0.4 ? 'text-yellow-400' : 'text-red-400'}`}>
+          {Math.round(stats.accuracy * 100)}%
+        </div>
+      </div>
+      <div>
+        <div className="text-xs uppercase tracking-wider text-slate-500">Avg Time</div>
+        <div className="font-mono font-bold text-indigo-300">{stats.avgTimePerQuestion.toFixed(1)}s</div>
+      </div>
+    </div>
+    <TrendLine points={stats.trend} />
+  </div>
+);
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
+  const [attempts, setAttempts] = useState<PracticeAttempt[] | null>(null);
+  const [subject, setSubject] = useState<Subject>(Subject.BOTANY);
+
+  useEffect(() => {
+    getAttempts().then(setAttempts);
+  }, []);
+
+  const subjectStats = useMemo(() =>
+    Object.values(Subject).map(sub => ({ subject: sub, stats: attempts ? getSubjectStats(attempts, sub) : null })),
+  [attempts]);
+
+  const chapterStats = useMemo(() =>
+    getChapters(subject)
+      .map(chap => ({ chapter: chap, stats: attempts ? getChapterStats(attempts, chap.id) : null }))
+      .filter((row): row is { chapter: typeof row.chapter; stats: PerformanceStats } => row.stats !== null)
+      .sort((a, b) => a.stats.accuracy - b.stats.accuracy),
+  [attempts, subject]);
+
+  if (!attempts) {
+    return (
+      <div className="h-screen w-full bg-slate-900 flex items-center justify-center text-white">
+        <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen w-full bg-slate-900 text-white p-4 md:p-8 overflow-y-auto">
+      <div className="max-w-4xl mx-auto space-y-8 pb-10">
+        <div className="flex justify-between items-center mt-4">
+          <h2 className="text-3xl font-bold text-emerald-400">Your Progress</h2>
+          <button onClick={onBack} className="text-sm text-slate-400 hover:text-white">Back</button>
+        </div>
+
+        {attempts.length === 0 ? (
+          <div className="glass-panel p-8 rounded-2xl text-center text-slate-400">
+            Complete a Practice Lab session to start tracking your progress.
+          </div>
+        ) : (
+          <>
+            {/* Subject Overview */}
+            <div className="space-y-3">
+              <h3 className="text-sm uppercase tracking-wider text-slate-500 font-bold">By Subject</h3>
+              {subjectStats.map(({ subject: sub, stats }) => stats && (
+                <StatsRow key={sub} title={sub} stats={stats} />
+              ))}
+            </div>
+
+            {/* Chapter Breakdown */}
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-sm uppercase tracking-wider text-slate-500 font-bold">By Chapter</h3>
+                <div className="flex gap-2">
+                  {Object.values(Subject).map(sub => (
+                    <button
+                      key={sub}
+                      onClick={() => setSubject(sub)}
+                      className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                        subject === sub
+                          ? 'bg-emerald-600 border-emerald-400 text-white'
+                          : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                      }`}
+                    >
+                      {sub}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {chapterStats.length === 0 ? (
+                <p className="text-slate-500 text-sm">No chapter-specific attempts for {subject} yet.</p>
+              ) : (
+                chapterStats.map(({ chapter, stats }) => (
+                  <StatsRow key={chapter.id} title={chapter.name} stats={stats} />
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
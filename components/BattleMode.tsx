@@ -1,62 +1,184 @@
-import React, { useState, useEffect } from 'react';
-import { AppMode, Question, BattleConfig, Player } from '../types';
-import { generateBattleQuestions } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppMode, ChoiceQuestion, BattleConfig, BattleRoundResult, Deck, Player, Subject, BotTier } from '../types';
+import { BOT_PROFILES, ROUND_TIME_LIMITS, SCORING_RULES, SPEED_BONUS_SECONDS } from '../constants';
+import { getQuestionProvider } from '../services/questionProvider';
+import { scoreBattleAnswer } from '../services/battleScoring';
+import { planBotMove } from '../services/battleBot';
 import MathRenderer from './MathRenderer';
+import QuestionDetails from './QuestionDetails';
+import { OptionFigure } from './FigureView';
+import ChapterSelector from './ChapterSelector';
+import OnlineBattle from './OnlineBattle';
+import BattleReview from './BattleReview';
+import { loadSavedSeat } from '../services/battleRelayClient';
+import { GenerationErrorInfo, describeGenerationError } from '../services/generationErrors';
+import { chapterIdsForTopics } from '../services/syllabus';
+import { deckBattleQuestions } from '../services/decks';
 
 interface BattleModeProps {
   onBack: () => void;
+  deck?: Deck; // Battle over a saved deck instead of generated questions
 }
 
-const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
-  const [config, setConfig] = useState<BattleConfig>({ questionCount: 5 });
-  const [gameState, setGameState] = useState<'SETUP' | 'LOADING' | 'PLAYING' | 'FINISHED'>('SETUP');
-  const [questions, setQuestions] = useState<Question[]>([]);
+const BattleMode: React.FC<BattleModeProps> = ({ onBack, deck }) => {
+  const deckQuestions = deck ? deckBattleQuestions(deck) : [];
+  const [config, setConfig] = useState<BattleConfig>({
+    subject: deck?.entries[0]?.subject ?? Subject.BOTANY,
+    topicIds: [],
+    questionCount: deck ? deckQuestions.length : 5,
+    scoringRule: 'OPPONENT_GETS_POINT',
+    speedBonus: false,
+  });
+  const [gameState, setGameState] = useState<'SETUP' | 'LOADING' | 'PLAYING' | 'FINISHED' | 'ONLINE'>('SETUP');
+  const [questions, setQuestions] = useState<ChoiceQuestion[]>([]);
   const [currentQIndex, setCurrentQIndex] = useState(0);
   const [scores, setScores] = useState({ P1: 0, P2: 0 });
-  const [winner, setWinner] = useState<Player | 'DRAW' | null>(null);
   
   // Controls round state
   const [locked, setLocked] = useState(false);
+  const lockedRef = useRef(false); // Mirrors `locked` for timer callbacks
   const [lastRoundWinner, setLastRoundWinner] = useState<Player | null>(null);
+  const [roundTimedOut, setRoundTimedOut] = useState(false);
+  const [roundLog, setRoundLog] = useState<BattleRoundResult[]>([]);
+
+  // Question generation
+  const generationRef = useRef<AbortController | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<GenerationErrorInfo | null>(null);
+
+  useEffect(() => () => generationRef.current?.abort(), []);
+
+  // Round clock: reaction time for the speed bonus and the optional countdown
+  const roundStartRef = useRef<number>(Date.now());
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (gameState !== 'PLAYING') return;
+    roundStartRef.current = Date.now();
+    if (!config.roundTimeLimit) return;
+
+    setTimeLeft(config.roundTimeLimit);
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, config.roundTimeLimit! - Math.floor((Date.now() - roundStartRef.current) / 1000));
+      setTimeLeft(remaining);
+      if (lockedRef.current) {
+        clearInterval(interval);
+      } else if (remaining === 0) {
+        clearInterval(interval);
+        handleTimeout();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [gameState, currentQIndex]);
+
+  // Bot opponent: answers through the same handleAnswer path as a human P2,
+  // so a faster P1 answer locks it out exactly like in a human duel
+  useEffect(() => {
+    if (gameState !== 'PLAYING' || !config.botTier) return;
+    const move = planBotMove(questions[currentQIndex], config.botTier);
+    const timer = setTimeout(() => handleAnswer('P2', move.selectedIndex), move.delayMs);
+    return () => clearTimeout(timer);
+  }, [gameState, currentQIndex]);
+
+  const playerLabel = (player: Player) =>
+    player === 'P1' ? 'Player 1' : config.botTier ? 'Bot' : 'Player 2';
 
   const startBattle = async () => {
+    if (deck) {
+      setQuestions(deckQuestions);
+      setRoundLog([]);
+      setGameState('PLAYING');
+      return;
+    }
+
+    const generation = new AbortController();
+    generationRef.current = generation;
     setGameState('LOADING');
-    const qs = await generateBattleQuestions(config.questionCount);
+    setRetryNotice(null);
+    setGenerationError(null);
+
+    let qs: ChoiceQuestion[] = [];
+    let failure: unknown = null;
+    try {
+      qs = await getQuestionProvider().generateBattleQuestions(config.subject, config.topicIds, config.questionCount, {
+        onRetry: (attempt, delayMs, error) =>
+          setRetryNotice(`${error.message} Retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1})...`),
+        signal: generation.signal,
+      });
+    } catch (error) {
+      failure = error;
+    }
+    if (generationRef.current !== generation) return; // Cancelled
+    generationRef.current = null;
+
     if (qs.length > 0) {
       setQuestions(qs);
+      setRoundLog([]);
       setGameState('PLAYING');
     } else {
+      setGenerationError(describeGenerationError(failure));
       setGameState('SETUP');
-      alert('Failed to generate questions. Try again.');
     }
   };
 
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setGameState('SETUP');
+  };
+
+  const lockRound = () => {
+    lockedRef.current = true;
+    setLocked(true);
+  };
+
   const handleAnswer = (player: Player, selectedIndex: number) => {
-    if (locked) return;
+    if (lockedRef.current) return;
 
     const currentQ = questions[currentQIndex];
     const isCorrect = selectedIndex === currentQ.correctIndex;
+    const reactionMs = Date.now() - roundStartRef.current;
 
-    setLocked(true);
+    lockRound();
 
-    if (isCorrect) {
-      setScores(prev => ({ ...prev, [player]: prev[player] + 1 }));
-      setLastRoundWinner(player);
-      
-      // Flash effect handled by UI
-      setTimeout(() => nextQuestion(), 2000);
-    } else {
-      // If wrong, other player gets point or no one? Let's say other player wins round by default for speed
-      const otherPlayer = player === 'P1' ? 'P2' : 'P1';
-      setScores(prev => ({ ...prev, [otherPlayer]: prev[otherPlayer] + 1 }));
-      setLastRoundWinner(otherPlayer);
-      setTimeout(() => nextQuestion(), 2000);
-    }
+    const { deltas, roundWinner } = scoreBattleAnswer(config.scoringRule, player, isCorrect, reactionMs, config.speedBonus);
+    setScores(prev => ({ P1: prev.P1 + deltas.P1, P2: prev.P2 + deltas.P2 }));
+    setLastRoundWinner(roundWinner);
+    setRoundLog(prev => [...prev, {
+      questionIndex: currentQIndex,
+      answeredBy: player,
+      selectedIndex,
+      isCorrect,
+      roundWinner,
+      reactionMs,
+    }]);
+
+    // Flash effect handled by UI
+    setTimeout(() => nextQuestion(), 2000);
+  };
+
+  // Countdown ran out before anyone answered: nobody wins the round
+  const handleTimeout = () => {
+    if (lockedRef.current) return;
+    lockRound();
+    setRoundTimedOut(true);
+    setLastRoundWinner(null);
+    setRoundLog(prev => [...prev, {
+      questionIndex: currentQIndex,
+      answeredBy: null,
+      selectedIndex: null,
+      isCorrect: false,
+      roundWinner: null,
+      reactionMs: null,
+    }]);
+    setTimeout(() => nextQuestion(), 2000);
   };
 
   const nextQuestion = () => {
+    lockedRef.current = false;
     setLocked(false);
     setLastRoundWinner(null);
+    setRoundTimedOut(false);
     if (currentQIndex + 1 < questions.length) {
       setCurrentQIndex(prev => prev + 1);
     } else {
@@ -65,17 +187,84 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
   };
 
   const finishGame = () => {
-    if (scores.P1 > scores.P2) setWinner('P1');
-    else if (scores.P2 > scores.P1) setWinner('P2');
-    else setWinner('DRAW');
     setGameState('FINISHED');
   };
 
+  if (gameState === 'ONLINE') {
+    return <OnlineBattle config={config} onExit={() => setGameState('SETUP')} />;
+  }
+
   if (gameState === 'SETUP') {
+    const savedSeat = loadSavedSeat();
     return (
       <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-900 text-white p-6 overflow-y-auto">
-        <div className="glass-panel p-8 rounded-2xl w-full max-w-md my-auto">
+        <div className="glass-panel p-8 rounded-2xl w-full max-w-2xl my-auto">
           <h2 className="text-3xl font-bold mb-6 text-blue-400">Battle Setup</h2>
+
+          {savedSeat && !deck && (
+            <button
+              onClick={() => setGameState('ONLINE')}
+              className="w-full mb-6 p-3 rounded-lg border border-yellow-500 bg-yellow-900/30 text-yellow-100 text-sm font-semibold hover:bg-yellow-900/50"
+            >
+              Rejoin online match {savedSeat.roomCode}
+            </button>
+          )}
+
+          {generationError && (
+            <div className="mb-6 p-4 rounded-lg border border-red-500 bg-red-900/30 text-sm">
+              <h4 className="font-bold text-red-200 mb-1">{generationError.title}</h4>
+              <p className="text-red-100/80">{generationError.message}</p>
+              <div className="flex gap-4 mt-3">
+                {generationError.canRetry && (
+                  <button onClick={startBattle} className="px-4 py-1.5 bg-red-600 hover:bg-red-500 rounded font-bold">Retry</button>
+                )}
+                <button onClick={() => setGenerationError(null)} className="text-red-200/70 hover:text-white">Dismiss</button>
+              </div>
+            </div>
+          )}
+
+          {deck ? (
+            <div className="mb-6 p-4 rounded-lg border border-amber-400/60 bg-amber-900/20">
+              <span className="block text-sm font-medium">Question Set: {deck.name}</span>
+              <span className="block text-xs text-slate-400 mt-1">
+                {deckQuestions.length} question(s) from your saved deck
+                {deckQuestions.length < deck.entries.length && '; numeric questions are left out'}
+              </span>
+            </div>
+          ) : (
+          <>
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Subject</label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {Object.values(Subject).map(sub => (
+                <button
+                  key={sub}
+                  onClick={() => setConfig({ ...config, subject: sub, topicIds: [] })}
+                  className={`py-2 rounded-lg text-sm font-semibold border transition-colors ${
+                    config.subject === sub
+                      ? 'bg-blue-600 border-blue-400 text-white'
+                      : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                  }`}
+                >
+                  {sub}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">Chapters</label>
+              <span className="text-xs text-slate-400">{config.topicIds.length > 0 ? `${chapterIdsForTopics(config.topicIds).length} selected` : 'All chapters'}</span>
+            </div>
+            <ChapterSelector
+              subject={config.subject}
+              selected={config.topicIds}
+              onChange={(topicIds) => setConfig({ ...config, topicIds })}
+              className="space-y-4 max-h-56 overflow-y-auto pr-1"
+              gridClassName="grid grid-cols-1 md:grid-cols-2 gap-2"
+            />
+          </div>
           <div className="mb-6">
             <label className="block text-sm font-medium mb-2">Number of Questions</label>
             <input
@@ -83,16 +272,102 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
               min="3"
               max="20"
               value={config.questionCount}
-              onChange={(e) => setConfig({ questionCount: parseInt(e.target.value) })}
+              onChange={(e) => setConfig({ ...config, questionCount: parseInt(e.target.value) })}
               className="w-full bg-slate-800 border border-slate-600 rounded-lg p-3 focus:outline-none focus:border-blue-500"
             />
           </div>
+          </>
+          )}
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Scoring Rules</label>
+            <div className="space-y-2">
+              {SCORING_RULES.map(rule => (
+                <button
+                  key={rule.id}
+                  onClick={() => setConfig({ ...config, scoringRule: rule.id })}
+                  className={`w-full p-3 rounded-lg text-left border transition-colors ${
+                    config.scoringRule === rule.id
+                      ? 'bg-blue-600/30 border-blue-400'
+                      : 'bg-slate-800 border-slate-700 hover:bg-slate-700'
+                  }`}
+                >
+                  <span className="font-semibold">{rule.label}</span>
+                  <span className="block text-xs text-slate-400">{rule.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Time per Question</label>
+            <div className="flex gap-2">
+              {[undefined, ...ROUND_TIME_LIMITS].map(limit => (
+                <button
+                  key={limit ?? 'off'}
+                  onClick={() => setConfig({ ...config, roundTimeLimit: limit })}
+                  className={`flex-1 py-2 rounded-lg text-sm border transition-colors ${
+                    config.roundTimeLimit === limit
+                      ? 'bg-blue-600 border-blue-400 text-white'
+                      : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                  }`}
+                >
+                  {limit ? `${limit}s` : 'Off'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Opponent</label>
+            <div className="flex gap-2">
+              {([undefined, 'EASY', 'MEDIUM', 'HARD'] as (BotTier | undefined)[]).map(tier => (
+                <button
+                  key={tier ?? 'human'}
+                  onClick={() => setConfig({ ...config, botTier: tier })}
+                  className={`flex-1 py-2 rounded-lg text-sm border transition-colors ${
+                    config.botTier === tier
+                      ? 'bg-blue-600 border-blue-400 text-white'
+                      : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                  }`}
+                >
+                  {tier ? `Bot: ${tier.charAt(0) + tier.slice(1).toLowerCase()}` : 'Friend'}
+                </button>
+              ))}
+            </div>
+            {config.botTier && (
+              <p className="text-xs text-slate-400 mt-2">
+                ~{Math.round(BOT_PROFILES[config.botTier].accuracy * 100)}% accurate, answers in about {Math.round(BOT_PROFILES[config.botTier].meanResponseMs / 1000)}s
+              </p>
+            )}
+          </div>
+
+          <label className="mb-6 flex items-center justify-between gap-4 cursor-pointer">
+            <span>
+              <span className="block text-sm font-medium">Speed Bonus</span>
+              <span className="block text-xs text-slate-400">+1 for a correct answer within {SPEED_BONUS_SECONDS}s</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={config.speedBonus}
+              onChange={(e) => setConfig({ ...config, speedBonus: e.target.checked })}
+              className="w-5 h-5 accent-blue-500"
+            />
+          </label>
           <button
             onClick={startBattle}
             className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-lg transition-colors"
           >
             Start Duel
           </button>
+          {!deck && (
+            <button
+              onClick={() => setGameState('ONLINE')}
+              className="w-full mt-3 border border-blue-500 text-blue-300 hover:bg-blue-500/10 font-bold py-3 rounded-lg transition-colors"
+            >
+              Play Online (Two Devices)
+            </button>
+          )}
           <button onClick={onBack} className="w-full mt-4 text-slate-400 hover:text-white">Back</button>
         </div>
       </div>
@@ -104,27 +379,31 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
       <div className="h-screen w-full flex items-center justify-center bg-slate-900 text-white overflow-hidden">
         <div className="text-center">
           <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-xl animate-pulse">Summoning Questions...</p>
+          <p className="text-xl animate-pulse">Summoning {config.subject} Questions...</p>
+          {retryNotice && <p className="text-sm text-yellow-300 mt-4 max-w-sm mx-auto">{retryNotice}</p>}
+          <button onClick={cancelGeneration} className="mt-8 text-sm text-slate-400 hover:text-white">Cancel</button>
         </div>
       </div>
     );
   }
 
   if (gameState === 'FINISHED') {
+    const winner: Player | 'DRAW' = scores.P1 > scores.P2 ? 'P1' : scores.P2 > scores.P1 ? 'P2' : 'DRAW';
     return (
-      <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-900 text-white overflow-y-auto p-6">
-        <div className="glass-panel p-10 rounded-3xl text-center my-auto">
+      <div className="h-screen w-full flex flex-col items-center bg-slate-900 text-white overflow-y-auto p-6 gap-8 pb-10">
+        <div className="glass-panel p-10 rounded-3xl text-center mt-4">
           <h1 className="text-5xl font-black mb-4 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">
-            {winner === 'DRAW' ? 'DRAW!' : `${winner === 'P1' ? 'Player 1' : 'Player 2'} WINS!`}
+            {winner === 'DRAW' ? 'DRAW!' : `${playerLabel(winner)} WINS!`}
           </h1>
           <div className="flex justify-center gap-12 text-3xl font-bold mb-8">
              <div className="text-blue-400">P1: {scores.P1}</div>
-             <div className="text-red-400">P2: {scores.P2}</div>
+             <div className="text-red-400">{config.botTier ? 'Bot' : 'P2'}: {scores.P2}</div>
           </div>
           <button onClick={onBack} className="bg-white text-slate-900 px-8 py-3 rounded-full font-bold hover:bg-slate-200">
-            Return to Menu
+            {deck ? 'Back to Decks' : 'Return to Menu'}
           </button>
         </div>
+        <BattleReview subject={config.subject} questions={questions} rounds={roundLog} playerLabel={playerLabel} />
       </div>
     );
   }
@@ -141,7 +420,22 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
   return (
     <div className="relative w-full h-screen overflow-hidden bg-slate-950 flex flex-col">
       
-      {/* PLAYER 2 ZONE (ROTATED 180) */}
+      {config.botTier ? (
+      /* BOT ZONE */
+      <div className={`flex-1 relative flex flex-col items-center justify-center p-4 border-b-2 border-slate-700 transition-colors duration-500 ${getBgColor('P2')}`}>
+        <div className="text-6xl mb-4">🤖</div>
+        <p className="text-slate-300 font-semibold">
+          {config.botTier.charAt(0) + config.botTier.slice(1).toLowerCase()} Bot
+        </p>
+        <p className="text-sm text-slate-400 mt-2">
+          {!locked ? <span className="animate-pulse">Thinking...</span> : lastRoundWinner === 'P2' ? 'Got it!' : 'Round over'}
+        </p>
+        <div className="absolute top-4 left-4 bg-red-500 px-4 py-2 rounded-full font-bold shadow-lg">
+          Bot: {scores.P2}
+        </div>
+      </div>
+      ) : (
+      /* PLAYER 2 ZONE (ROTATED 180) */
       <div className={`flex-1 relative flex flex-col p-4 transform rotate-180 border-b-2 border-slate-700 transition-colors duration-500 ${getBgColor('P2')}`}>
         
         {/* P2 Options (At 'Top' visually for them, so bottom of this container) */}
@@ -154,6 +448,7 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
                className="p-4 bg-slate-700 rounded-xl text-lg font-semibold active:scale-95 transition-transform hover:bg-slate-600 disabled:opacity-50 text-white"
              >
                <MathRenderer text={opt} />
+               <OptionFigure question={currentQ} index={idx} />
              </button>
            ))}
         </div>
@@ -164,6 +459,7 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
            <h2 className="text-2xl font-bold text-white max-w-xl leading-relaxed">
              <MathRenderer text={currentQ.text} />
            </h2>
+           <div className="max-w-xl w-full text-slate-200"><QuestionDetails question={currentQ} compact /></div>
         </div>
 
         {/* P2 Score (Sticky corner) */}
@@ -171,6 +467,7 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
           P2: {scores.P2}
         </div>
       </div>
+      )}
 
       {/* PLAYER 1 ZONE (NORMAL) */}
       <div className={`flex-1 relative flex flex-col p-4 transition-colors duration-500 ${getBgColor('P1')}`}>
@@ -186,6 +483,7 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
            <h2 className="text-2xl font-bold text-white max-w-xl leading-relaxed">
               <MathRenderer text={currentQ.text} />
            </h2>
+           <div className="max-w-xl w-full text-slate-200"><QuestionDetails question={currentQ} compact /></div>
         </div>
 
         {/* P1 Options */}
@@ -198,6 +496,7 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
                className="p-4 bg-slate-700 rounded-xl text-lg font-semibold active:scale-95 transition-transform hover:bg-slate-600 disabled:opacity-50 text-white"
              >
                 <MathRenderer text={opt} />
+                <OptionFigure question={currentQ} index={idx} />
              </button>
            ))}
         </div>
@@ -205,6 +504,15 @@ const BattleMode: React.FC<BattleModeProps> = ({ onBack }) => {
 
       {/* Central Axis / Divider */}
       <div className="absolute top-1/2 left-0 w-full h-1 bg-gradient-to-r from-transparent via-white to-transparent opacity-50 pointer-events-none transform -translate-y-1/2 z-20"></div>
+
+      {/* Round Countdown */}
+      {config.roundTimeLimit && timeLeft !== null && (
+        <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-30 w-14 h-14 rounded-full flex items-center justify-center font-mono text-xl font-black border-4 pointer-events-none ${
+          roundTimedOut ? 'bg-red-600 border-red-300' : timeLeft <= 3 ? 'bg-slate-900 border-red-500 text-red-400 animate-pulse' : 'bg-slate-900 border-slate-500'
+        }`}>
+          {roundTimedOut ? '0' : timeLeft}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { BattleRoundResult, ChoiceQuestion, Player, Subject } from '../types';
+import MathRenderer from './MathRenderer';
+import QuestionDetails from './QuestionDetails';
+import { OptionFigure } from './FigureView';
+import { ReportQuestionButton } from './QuestionEditor';
+import BookmarkButton from './BookmarkButton';
+
+interface BattleReviewProps {
+  subject: Subject;
+  questions: ChoiceQuestion[];
+  rounds: BattleRoundResult[];
+  playerLabel: (player: Player) => string;
+}
+
+// Round-by-round breakdown shown after a duel, so it doubles as revision
+const BattleReview: React.FC<BattleReviewProps> = ({ subject, questions, rounds, playerLabel }) => (
+  <div className="space-y-4 w-full max-w-3xl">
+    <h3 className="text-sm uppercase tracking-wider text-slate-500 font-bold">Round by Round</h3>
+    {rounds.map((round) => {
+      const q = questions[round.questionIndex];
+      if (!q) return null;
+
+      const summary = round.answeredBy === null
+        ? "Time ran out — nobody answered"
+        : `${playerLabel(round.answeredBy)} answered ${round.isCorrect ? 'correctly' : 'incorrectly'}` +
+          (round.reactionMs !== null ? ` in ${(round.reactionMs / 1000).toFixed(1)}s` : '');
+
+      return (
+        <div
+          key={round.questionIndex}
+          className={`glass-panel p-6 rounded-xl border-l-4 text-left ${
+            round.answeredBy === null ? 'border-yellow-500' : round.isCorrect ? 'border-green-500' : 'border-red-500'
+          }`}
+        >
+          <div className="flex justify-between items-start gap-4 mb-3">
+            <span className="text-xs font-mono text-slate-500">Round {round.questionIndex + 1}</span>
+            <div className="flex items-center gap-3">
+              <BookmarkButton question={q} subject={subject} />
+              <ReportQuestionButton question={q} subject={subject} />
+              <span className="text-xs font-bold px-2 py-1 rounded bg-slate-800 text-slate-300">
+                {round.roundWinner ? `Point: ${playerLabel(round.roundWinner)}` : 'No point'}
+              </span>
+            </div>
+          </div>
+
+          <h4 className="text-lg font-semibold mb-4 text-slate-100"><MathRenderer text={q.text} /></h4>
+          <div className="mb-4 text-slate-300"><QuestionDetails question={q} /></div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+            {q.options.map((opt, optIdx) => {
+              const isPicked = round.selectedIndex === optIdx;
+              const isRightAnswer = q.correctIndex === optIdx;
+              let optionClass = "p-3 rounded-lg text-sm border ";
+              if (isRightAnswer) optionClass += "border-green-500 bg-green-900/20 text-green-100";
+              else if (isPicked) optionClass += "border-red-500 bg-red-900/20 text-red-100";
+              else optionClass += "border-slate-700 bg-slate-800/50 text-slate-400";
+
+              return (
+                <div key={optIdx} className={optionClass}>
+                  <div className="flex gap-2">
+                    <span className="font-bold">{String.fromCharCode(65 + optIdx)}.</span>
+                    <MathRenderer text={opt} />
+                    {isPicked && round.answeredBy && (
+                      <span className="ml-auto text-xs font-bold whitespace-nowrap">← {playerLabel(round.answeredBy)}</span>
+                    )}
+                  </div>
+                  <OptionFigure question={q} index={optIdx} />
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="text-sm text-slate-400 mb-4">{summary}</p>
+
+          <div className="bg-slate-800/50 p-4 rounded-lg">
+            <h5 className="text-xs uppercase tracking-wider text-blue-400 font-bold mb-2">NCERT Explanation</h5>
+            <p className="text-sm text-slate-300 leading-relaxed"><MathRenderer text={q.explanation || ''} /></p>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default BattleReview;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Deck, Question, Subject } from '../types';
+import { createDeck, getDecks, isInDeck, toggleDeckQuestion } from '../services/decks';
+
+interface BookmarkButtonProps {
+  question: Question;
+  subject: Subject;
+}
+
+// Star on a question card that files the question into one or more named
+// decks; a new deck can be created from the same menu
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({ question, subject }) => {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  // Reloaded on opening too, as other cards may have changed the decks since
+  useEffect(() => {
+    getDecks().then(setDecks);
+  }, [question.id, open]);
+
+  const saved = decks.some(deck => isInDeck(deck, question.id));
+
+  const toggle = async (deck: Deck) => {
+    const updated = await toggleDeckQuestion(deck, question, subject);
+    setDecks(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+  };
+
+  const addToNewDeck = async () => {
+    if (!newName.trim()) return;
+    const deck = await toggleDeckQuestion(await createDeck(newName), question, subject);
+    setDecks(prev => [...prev, deck]);
+    setNewName('');
+  };
+
+  return (
+    <div className="relative inline-block" onClick={e => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(!open)}
+        title={saved ? 'Bookmarked' : 'Bookmark'}
+        className={`p-1 transition-colors ${saved ? 'text-amber-400' : 'text-slate-500 hover:text-white'}`}
+      >
+        <svg className="w-5 h-5" fill={saved ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-4 space-y-3 text-left">
+          <h4 className="text-xs uppercase tracking-wider text-slate-500 font-bold">Save to Deck</h4>
+          {decks.length === 0 && <p className="text-xs text-slate-500">No decks yet. Name one below.</p>}
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {decks.map(deck => (
+              <label key={deck.id} className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isInDeck(deck, question.id)}
+                  onChange={() => toggle(deck)}
+                  className="accent-amber-500"
+                />
+                <span className="flex-1 truncate">{deck.name}</span>
+                <span className="text-xs text-slate-500 font-mono">{deck.entries.length}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addToNewDeck(); }}
+              placeholder="New deck, e.g. Formulas"
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded-lg p-2 text-xs focus:outline-none focus:border-amber-500"
+            />
+            <button
+              onClick={addToNewDeck}
+              disabled={!newName.trim()}
+              className="px-3 bg-amber-500 text-slate-900 rounded-lg text-xs font-bold disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+          <button onClick={() => setOpen(false)} className="w-full text-xs text-slate-400 hover:text-white">Done</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkButton;
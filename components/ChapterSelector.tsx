@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Chapter, Subject } from '../types';
+import { getUnits } from '../services/syllabus';
+
+interface ChapterSelectorProps {
+  subject: Subject;
+  selected: string[]; // Topic ids; a chapter counts as picked when all its topics are
+  onChange: (topicIds: string[]) => void;
+  showTopics?: boolean; // Allow narrowing a chapter down to single topics
+  className?: string;
+  gridClassName?: string;
+}
+
+// Whole chapter on or off; a partly picked chapter is completed first
+const toggleChapter = (selected: string[], chapter: Chapter): string[] => {
+  const ids = chapter.topics.map(t => t.id);
+  const rest = selected.filter(id => !ids.includes(id));
+  return ids.every(id => selected.includes(id)) ? rest : [...rest, ...ids];
+};
+
+const toggleTopic = (selected: string[], topicId: string): string[] =>
+  selected.includes(topicId) ? selected.filter(id => id !== topicId) : [...selected, topicId];
+
+// Syllabus picker shared by the Practice Lab and Battle Setup screens,
+// grouped by unit
+const ChapterSelector: React.FC<ChapterSelectorProps> = ({
+  subject,
+  selected,
+  onChange,
+  showTopics = false,
+  className = "space-y-6",
+  gridClassName = "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3",
+}) => {
+  const [expandedChapterId, setExpandedChapterId] = useState<string | null>(null);
+
+  return (
+    <div className={className}>
+      {getUnits(subject).map(unit => (
+        <div key={unit.id}>
+          <h3 className="text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">{unit.name}</h3>
+          <div className={gridClassName}>
+            {unit.chapters.map((chap) => {
+              const pickedCount = chap.topics.filter(t => selected.includes(t.id)).length;
+              const isWhole = pickedCount === chap.topics.length;
+              const isExpanded = showTopics && expandedChapterId === chap.id;
+              return (
+                <div
+                  key={chap.id}
+                  className={`rounded-lg text-sm border transition-colors ${
+                    isWhole
+                      ? 'bg-indigo-600 border-indigo-400 text-white'
+                      : pickedCount > 0
+                        ? 'bg-indigo-900/40 border-indigo-500 text-indigo-100'
+                        : 'bg-slate-800 border-slate-700 text-slate-300'
+                  }`}
+                >
+                  <button onClick={() => onChange(toggleChapter(selected, chap))} className="w-full p-4 pb-2 text-left">
+                    {chap.name}
+                  </button>
+                  <div className="flex items-center gap-2 px-4 pb-3 text-xs opacity-80">
+                    <span>Class {chap.ncertClass}</span>
+                    <span>•</span>
+                    <span>~{chap.weightage}%</span>
+                    {showTopics && (
+                      <button
+                        onClick={() => setExpandedChapterId(isExpanded ? null : chap.id)}
+                        className="ml-auto underline hover:opacity-100"
+                      >
+                        {pickedCount > 0 && !isWhole ? `${pickedCount}/${chap.topics.length} topics` : 'Topics'}
+                      </button>
+                    )}
+                  </div>
+                  {isExpanded && (
+                    <div className="flex flex-wrap gap-2 px-4 pb-4">
+                      {chap.topics.map(topic => (
+                        <button
+                          key={topic.id}
+                          onClick={() => onChange(toggleTopic(selected, topic.id))}
+                          className={`px-2 py-1 rounded-full text-xs border ${
+                            selected.includes(topic.id)
+                              ? 'bg-white text-indigo-900 border-white'
+                              : 'border-slate-500 text-slate-300 hover:border-slate-300'
+                          }`}
+                        >
+                          {topic.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChapterSelector;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Deck } from '../types';
+import { createDeck, deckBattleQuestions, deleteDeck, getDecks, toggleDeckQuestion } from '../services/decks';
+import MathRenderer from './MathRenderer';
+
+interface DeckLibraryProps {
+  onBack: () => void;
+  onPractice: (deck: Deck) => void;
+  onBattle: (deck: Deck) => void;
+}
+
+// Saved decks, each playable as a practice quiz or as a battle question set
+const DeckLibrary: React.FC<DeckLibraryProps> = ({ onBack, onPractice, onBattle }) => {
+  const [decks, setDecks] = useState<Deck[] | null>(null);
+  const [expandedDeckId, setExpandedDeckId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    getDecks().then(setDecks);
+  }, []);
+
+  const replaceDeck = (deck: Deck) => setDecks(prev => (prev ?? []).map(d => (d.id === deck.id ? deck : d)));
+
+  const addDeck = async () => {
+    if (!newName.trim()) return;
+    const deck = await createDeck(newName);
+    setDecks(prev => [...(prev ?? []), deck]);
+    setNewName('');
+  };
+
+  const removeDeck = async (deck: Deck) => {
+    if (!confirm(`Delete "${deck.name}" and its ${deck.entries.length} saved question(s)?`)) return;
+    await deleteDeck(deck.id);
+    setDecks(prev => (prev ?? []).filter(d => d.id !== deck.id));
+  };
+
+  return (
+    <div className="h-screen w-full bg-slate-900 text-white p-6 overflow-y-auto">
+      <div className="max-w-3xl mx-auto space-y-6 pb-10">
+        <div className="flex justify-between items-center mt-4">
+          <h2 className="text-3xl font-bold text-amber-400">Saved Decks</h2>
+          <button onClick={onBack} className="text-sm text-slate-400 hover:text-white">Back to Menu</button>
+        </div>
+
+        <div className="flex gap-3">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addDeck(); }}
+            placeholder="New deck name, e.g. Tricky genetics"
+            className="flex-1 bg-slate-800 border border-slate-600 rounded-lg p-3 text-sm focus:outline-none focus:border-amber-500"
+          />
+          <button
+            onClick={addDeck}
+            disabled={!newName.trim()}
+            className="px-6 bg-amber-500 text-slate-900 rounded-lg font-bold disabled:opacity-40"
+          >
+            Create
+          </button>
+        </div>
+
+        {decks === null ? (
+          <p className="text-slate-400 animate-pulse">Loading decks...</p>
+        ) : decks.length === 0 ? (
+          <div className="glass-panel p-8 rounded-xl text-center text-slate-400">
+            No decks yet. Bookmark questions from practice or battle reviews to file them into decks.
+          </div>
+        ) : (
+          decks.map(deck => {
+            const battleCount = deckBattleQuestions(deck).length;
+            const subjects = Array.from(new Set(deck.entries.map(e => e.subject)));
+            const isExpanded = expandedDeckId === deck.id;
+            return (
+              <div key={deck.id} className="glass-panel p-6 rounded-xl border-l-4 border-amber-400 space-y-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <h3 className="text-xl font-bold">{deck.name}</h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {deck.entries.length} question(s){subjects.length > 0 && ` • ${subjects.join(', ')}`}
+                    </p>
+                  </div>
+                  <button onClick={() => removeDeck(deck)} className="text-xs text-slate-500 hover:text-red-300">Delete</button>
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={() => onPractice(deck)}
+                    disabled={deck.entries.length === 0}
+                    className="px-5 py-2 bg-indigo-600 rounded-lg text-sm font-bold hover:bg-indigo-500 disabled:opacity-40"
+                  >
+                    Practice
+                  </button>
+                  <button
+                    onClick={() => onBattle(deck)}
+                    disabled={battleCount === 0}
+                    title={battleCount < deck.entries.length ? 'Numeric questions are left out of battles' : undefined}
+                    className="px-5 py-2 bg-blue-600 rounded-lg text-sm font-bold hover:bg-blue-500 disabled:opacity-40"
+                  >
+                    Battle{battleCount < deck.entries.length ? ` (${battleCount})` : ''}
+                  </button>
+                  {deck.entries.length > 0 && (
+                    <button
+                      onClick={() => setExpandedDeckId(isExpanded ? null : deck.id)}
+                      className="ml-auto text-sm text-slate-400 hover:text-white underline"
+                    >
+                      {isExpanded ? 'Hide questions' : 'Show questions'}
+                    </button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <ul className="space-y-2 border-t border-slate-700 pt-4">
+                    {deck.entries.map(entry => (
+                      <li key={entry.question.id} className="flex items-start gap-3 text-sm text-slate-300">
+                        <span className="flex-1"><MathRenderer text={entry.question.text} /></span>
+                        <button
+                          onClick={async () => replaceDeck(await toggleDeckQuestion(deck, entry.question, entry.subject))}
+                          className="text-xs text-slate-500 hover:text-red-300 whitespace-nowrap"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeckLibrary;
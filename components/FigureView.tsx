@@ -0,0 +1,27 @@
+import React from 'react';
+import { ChoiceQuestion, Figure, UnrevealedQuestion } from '../types';
+import { figureSrc } from '../services/figures';
+
+interface FigureViewProps {
+  figure: Figure;
+  compact?: boolean; // Option-sized, or squeezed into a battle panel
+}
+
+// Diagrams are mostly dark line art, so they sit on a light card to stay
+// readable against the dark theme.
+const FigureView: React.FC<FigureViewProps> = ({ figure, compact = false }) => (
+  <img
+    src={figureSrc(figure)}
+    alt={figure.alt ?? 'Figure'}
+    loading="lazy"
+    className={`block mx-auto max-w-full object-contain rounded-lg bg-white p-2 ${compact ? 'max-h-28' : 'max-h-64'}`}
+  />
+);
+
+// An option's figure, if it has one. A span so it can sit inside option buttons.
+export const OptionFigure: React.FC<{ question: ChoiceQuestion | UnrevealedQuestion; index: number }> = ({ question, index }) => {
+  const figure = question.optionFigures?.[index];
+  return figure ? <span className="block mt-2"><FigureView figure={figure} compact /></span> : null;
+};
+
+export default FigureView;
@@ -1,11 +1,25 @@
-import React from 'react';
-import { AppMode } from '../types';
+import React, { useEffect, useState } from 'react';
+import { AppMode, PracticeSession } from '../types';
+import { getDueCards } from '../services/spacedRepetition';
+import { getDecks } from '../services/decks';
+import { clearSession, loadSession, sessionAnsweredCount, sessionElapsedSeconds } from '../services/practiceSession';
 
 interface MainMenuProps {
   onModeSelect: (mode: AppMode) => void;
 }
 
 const MainMenu: React.FC<MainMenuProps> = ({ onModeSelect }) => {
+  const [dueCount, setDueCount] = useState(0);
+  const [deckCount, setDeckCount] = useState(0);
+  const [session, setSession] = useState<PracticeSession | null>(() => loadSession());
+
+  useEffect(() => {
+    getDueCards().then(cards => setDueCount(cards.length));
+    getDecks().then(decks => setDeckCount(decks.length));
+  }, []);
+
+  const elapsed = session ? sessionElapsedSeconds(session) : 0;
+
   return (
     <div className="h-screen w-full flex flex-col items-center justify-center bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 p-6 relative overflow-y-auto">
       {/* Background Decor */}
@@ -23,6 +37,28 @@ const MainMenu: React.FC<MainMenuProps> = ({ onModeSelect }) => {
         </div>
 
         <div className="grid gap-6">
+          {session && (
+            <div className="relative glass-panel rounded-2xl border-l-4 border-green-400 overflow-hidden">
+              <button
+                onClick={() => onModeSelect(AppMode.PRACTICE_RESUME)}
+                className="group w-full px-8 py-6 text-left hover:bg-white/10 transition-all duration-300"
+              >
+                <h3 className="text-2xl font-bold text-white group-hover:text-green-300 transition-colors">
+                  Resume Session
+                </h3>
+                <p className="text-sm text-slate-300 mt-1">
+                  {session.config.subject} • {sessionAnsweredCount(session)}/{session.questions.length} Answered • {Math.floor(elapsed / 60)}:{(elapsed % 60).toString().padStart(2, '0')} Elapsed
+                </p>
+              </button>
+              <button
+                onClick={() => { clearSession(); setSession(null); }}
+                className="absolute top-3 right-4 text-xs text-slate-400 hover:text-red-300"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+
           <button
             onClick={() => onModeSelect(AppMode.BATTLE_SETUP)}
             className="group relative px-8 py-6 glass-panel rounded-2xl overflow-hidden hover:bg-white/10 transition-all duration-300 border-l-4 border-blue-400"
@@ -33,7 +69,7 @@ const MainMenu: React.FC<MainMenuProps> = ({ onModeSelect }) => {
                   Battle Arena
                 </h3>
                 <p className="text-sm text-slate-300 mt-1">
-                  1v1 Split Screen • Biology NCERT
+                  1v1 Duels • Split Screen, Online or Bot
                 </p>
               </div>
               <svg className="w-8 h-8 text-blue-400 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -60,6 +96,88 @@ const MainMenu: React.FC<MainMenuProps> = ({ onModeSelect }) => {
               </svg>
             </div>
           </button>
+
+          <button
+            onClick={() => onModeSelect(AppMode.MOCK_TEST)}
+            className="group relative px-8 py-6 glass-panel rounded-2xl overflow-hidden hover:bg-white/10 transition-all duration-300 border-l-4 border-rose-400"
+          >
+            <div className="flex items-center justify-between">
+              <div className="text-left">
+                <h3 className="text-2xl font-bold text-white group-hover:text-rose-300 transition-colors">
+                  Full Mock Test
+                </h3>
+                <p className="text-sm text-slate-300 mt-1">
+                  180 Questions • 200 Minutes • +4 / −1
+                </p>
+              </div>
+              <svg className="w-8 h-8 text-rose-400 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+            </div>
+          </button>
+
+          <button
+            onClick={() => onModeSelect(AppMode.REVIEW)}
+            className="group relative px-8 py-6 glass-panel rounded-2xl overflow-hidden hover:bg-white/10 transition-all duration-300 border-l-4 border-amber-400"
+          >
+            <div className="flex items-center justify-between">
+              <div className="text-left">
+                <h3 className="text-2xl font-bold text-white group-hover:text-amber-300 transition-colors">
+                  Review Due
+                </h3>
+                <p className="text-sm text-slate-300 mt-1">
+                  Spaced Repetition • Missed Questions
+                </p>
+              </div>
+              {dueCount > 0 ? (
+                <span className="min-w-[2rem] h-8 px-2 flex items-center justify-center rounded-full bg-amber-500 text-slate-900 font-bold group-hover:scale-110 transition-transform">
+                  {dueCount}
+                </span>
+              ) : (
+                <svg className="w-8 h-8 text-amber-400 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              )}
+            </div>
+          </button>
+
+          <button
+            onClick={() => onModeSelect(AppMode.DECKS)}
+            className="group relative px-8 py-6 glass-panel rounded-2xl overflow-hidden hover:bg-white/10 transition-all duration-300 border-l-4 border-yellow-300"
+          >
+            <div className="flex items-center justify-between">
+              <div className="text-left">
+                <h3 className="text-2xl font-bold text-white group-hover:text-yellow-200 transition-colors">
+                  Saved Decks
+                </h3>
+                <p className="text-sm text-slate-300 mt-1">
+                  {deckCount > 0 ? `${deckCount} Deck${deckCount === 1 ? '' : 's'}` : 'Bookmarks'} • Practice or Battle
+                </p>
+              </div>
+              <svg className="w-8 h-8 text-yellow-300 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+            </div>
+          </button>
+
+          <button
+            onClick={() => onModeSelect(AppMode.ANALYTICS)}
+            className="group relative px-8 py-6 glass-panel rounded-2xl overflow-hidden hover:bg-white/10 transition-all duration-300 border-l-4 border-emerald-400"
+          >
+            <div className="flex items-center justify-between">
+              <div className="text-left">
+                <h3 className="text-2xl font-bold text-white group-hover:text-emerald-300 transition-colors">
+                  Progress
+                </h3>
+                <p className="text-sm text-slate-300 mt-1">
+                  Accuracy • Speed • Chapter Trends
+                </p>
+              </div>
+              <svg className="w-8 h-8 text-emerald-400 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+              </svg>
+            </div>
+          </button>
         </div>
       </div>
 
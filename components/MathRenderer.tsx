@@ -1,4 +1,5 @@
 import React, { useEffect, useRef } from 'react';
+import { latexToPlainText } from '../services/latex';
 
 interface MathRendererProps {
   text: string;
@@ -30,19 +31,21 @@ const MathRenderer: React.FC<MathRendererProps> = ({ text, className = "", inlin
 
       parts.forEach((part) => {
         const span = document.createElement('span');
+        // throwOnError so unsupported input (e.g. \ce before mhchem loads)
+        // falls back to readable text instead of red KaTeX source
         if (part.startsWith('$$') && part.endsWith('$$')) {
           try {
              // Remove $$ and render block math
-             window.katex.render(part.slice(2, -2), span, { displayMode: true, throwOnError: false });
+             window.katex.render(part.slice(2, -2), span, { displayMode: true, throwOnError: true });
           } catch (e) {
-             span.textContent = part;
+             span.textContent = latexToPlainText(part);
           }
         } else if (part.startsWith('$') && part.endsWith('$')) {
            try {
              // Remove $ and render inline math
-             window.katex.render(part.slice(1, -1), span, { displayMode: false, throwOnError: false });
+             window.katex.render(part.slice(1, -1), span, { displayMode: false, throwOnError: true });
            } catch (e) {
-             span.textContent = part;
+             span.textContent = latexToPlainText(part);
            }
         } else {
           span.textContent = part;
@@ -51,7 +54,7 @@ const MathRenderer: React.FC<MathRendererProps> = ({ text, className = "", inlin
       });
     } else if (containerRef.current) {
         // Fallback if KaTeX isn't loaded yet
-        containerRef.current.textContent = text;
+        containerRef.current.textContent = latexToPlainText(text);
     }
   }, [text]);
 
@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Answer, MockSection, SectionResult, Subject } from '../types';
+import { NEET_MOCK_PATTERN } from '../constants';
+import { MockProgress, generateMockTest, scoreSection } from '../services/mockTest';
+import { describeGenerationError } from '../services/generationErrors';
+import MathRenderer from './MathRenderer';
+import QuestionDetails from './QuestionDetails';
+import { OptionFigure } from './FigureView';
+
+interface MockTestModeProps {
+  onBack: () => void;
+}
+
+const formatClock = (totalSeconds: number) => {
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+const MockTestMode: React.FC<MockTestModeProps> = ({ onBack }) => {
+  const [gameState, setGameState] = useState<'INTRO' | 'LOADING' | 'PLAYING' | 'FINISHED'>('INTRO');
+  const [sections, setSections] = useState<MockSection[]>([]);
+  const [answers, setAnswers] = useState<Answer[][]>([]); // Per section, null = unanswered
+  const [progress, setProgress] = useState<Partial<Record<Subject, MockProgress>>>({});
+
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [questionIndex, setQuestionIndex] = useState(0);
+
+  // Global exam clock
+  const endsAtRef = useRef<number>(0);
+  const [remaining, setRemaining] = useState(NEET_MOCK_PATTERN.durationMinutes * 60);
+
+  useEffect(() => {
+    if (gameState !== 'PLAYING') return;
+    const interval = setInterval(() => {
+      const secondsLeft = Math.max(0, Math.round((endsAtRef.current - Date.now()) / 1000));
+      setRemaining(secondsLeft);
+      if (secondsLeft === 0) setGameState('FINISHED'); // Auto-submit
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [gameState]);
+
+  const startMock = async () => {
+    setGameState('LOADING');
+    setProgress({});
+    let usable: MockSection[] = [];
+    let failure: unknown = null;
+    try {
+      const generated = await generateMockTest(p => setProgress(prev => ({ ...prev, [p.subject]: p })));
+      usable = generated.filter(s => s.questions.length > 0);
+    } catch (error) {
+      failure = error;
+    }
+
+    if (usable.length === 0) {
+      setGameState('INTRO');
+      alert(`Failed to generate the mock test. ${describeGenerationError(failure).message}`);
+      return;
+    }
+
+    setSections(usable);
+    setAnswers(usable.map(s => new Array(s.questions.length).fill(null)));
+    setSectionIndex(0);
+    setQuestionIndex(0);
+    endsAtRef.current = Date.now() + NEET_MOCK_PATTERN.durationMinutes * 60 * 1000;
+    setRemaining(NEET_MOCK_PATTERN.durationMinutes * 60);
+    setGameState('PLAYING');
+  };
+
+  const selectAnswer = (optIdx: number) => {
+    setAnswers(prev => prev.map((sec, s) =>
+      s === sectionIndex ? sec.map((a, q) => (q === questionIndex ? (a === optIdx ? null : optIdx) : a)) : sec
+    ));
+  };
+
+  const switchSection = (idx: number) => {
+    setSectionIndex(idx);
+    setQuestionIndex(0);
+  };
+
+  const goToNext = () => {
+    if (questionIndex < sections[sectionIndex].questions.length - 1) {
+      setQuestionIndex(prev => prev + 1);
+    } else if (sectionIndex < sections.length - 1) {
+      switchSection(sectionIndex + 1);
+    }
+  };
+
+  const goToPrev = () => {
+    if (questionIndex > 0) {
+      setQuestionIndex(prev => prev - 1);
+    } else if (sectionIndex > 0) {
+      setSectionIndex(sectionIndex - 1);
+      setQuestionIndex(sections[sectionIndex - 1].questions.length - 1);
+    }
+  };
+
+  const submitMock = () => {
+    const unanswered = answers.reduce((acc, sec) => acc + sec.filter(a => a === null).length, 0);
+    const message = unanswered > 0
+      ? `Submit the test? ${unanswered} question(s) are unanswered.`
+      : 'Submit the test?';
+    if (confirm(message)) setGameState('FINISHED');
+  };
+
+  // --- RENDER ---
+
+  if (gameState === 'INTRO') {
+    const totalQuestions = NEET_MOCK_PATTERN.sections.reduce((acc, s) => acc + s.questionCount, 0);
+    return (
+      <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-900 text-white p-6 overflow-y-auto">
+        <div className="glass-panel p-8 rounded-2xl w-full max-w-lg my-auto space-y-6">
+          <h2 className="text-3xl font-bold text-rose-400">NEET Mock Test</h2>
+          <ul className="space-y-2 text-sm text-slate-300">
+            <li>• {totalQuestions} questions across {NEET_MOCK_PATTERN.sections.map(s => s.subject).join(', ')}</li>
+            <li>• {NEET_MOCK_PATTERN.durationMinutes} minutes, auto-submitted when time runs out</li>
+            <li>• +{NEET_MOCK_PATTERN.marksCorrect} for correct, {NEET_MOCK_PATTERN.marksIncorrect} for incorrect, 0 for unanswered</li>
+          </ul>
+          <button
+            onClick={startMock}
+            className="w-full bg-rose-600 hover:bg-rose-500 text-white font-bold py-3 rounded-lg transition-colors"
+          >
+            Begin Mock Test
+          </button>
+          <button onClick={onBack} className="w-full text-slate-400 hover:text-white">Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState === 'LOADING') {
+    return (
+      <div className="h-screen w-full flex items-center justify-center bg-slate-900 text-white overflow-hidden p-6">
+        <div className="text-center w-full max-w-sm">
+          <div className="w-16 h-16 border-4 border-rose-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-xl animate-pulse mb-6">Preparing your paper...</p>
+          <div className="space-y-3 text-left">
+            {NEET_MOCK_PATTERN.sections.map(s => {
+              const ready = progress[s.subject]?.ready ?? 0;
+              return (
+                <div key={s.subject}>
+                  <div className="flex justify-between text-xs text-slate-400 mb-1">
+                    <span>{s.subject}</span>
+                    <span className="font-mono">{ready}/{s.questionCount}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-rose-500 transition-all" style={{ width: `${(ready / s.questionCount) * 100}%` }}></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState === 'FINISHED') {
+    const results: SectionResult[] = sections.map((sec, i) => scoreSection(sec, answers[i]));
+    const total = results.reduce((acc, r) => acc + r.score, 0);
+    const maxTotal = results.reduce((acc, r) => acc + r.maxScore, 0);
+
+    return (
+      <div className="h-screen w-full bg-slate-900 text-white p-4 md:p-8 overflow-y-auto">
+        <div className="max-w-4xl mx-auto space-y-8 pb-10">
+          <div className="glass-panel p-8 rounded-2xl text-center relative overflow-hidden mt-4">
+            <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-rose-500 via-orange-500 to-yellow-500"></div>
+            <h2 className="text-3xl font-bold text-slate-100 mb-2">Mock Test Result</h2>
+            <div className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-emerald-500 mb-4">
+              {total} / {maxTotal}
+            </div>
+            <p className="text-slate-400 text-sm">
+              Time used: {formatClock(NEET_MOCK_PATTERN.durationMinutes * 60 - remaining)}
+            </p>
+            <button onClick={onBack} className="mt-6 px-6 py-2 border border-slate-600 rounded-full hover:bg-slate-800 text-sm">Return to Menu</button>
+          </div>
+
+          {/* Section Breakdown */}
+          <div className="glass-panel rounded-2xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-800/80 text-slate-400 uppercase text-xs tracking-wider">
+                <tr>
+                  <th className="p-3 text-left">Section</th>
+                  <th className="p-3">Correct</th>
+                  <th className="p-3">Incorrect</th>
+                  <th className="p-3">Unanswered</th>
+                  <th className="p-3 text-right">Marks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(r => (
+                  <tr key={r.subject} className="border-t border-slate-700/50 text-center">
+                    <td className="p-3 text-left font-semibold">{r.subject}</td>
+                    <td className="p-3 text-green-400 font-mono">{r.correct}</td>
+                    <td className="p-3 text-red-400 font-mono">{r.incorrect}</td>
+                    <td className="p-3 text-slate-400 font-mono">{r.unanswered}</td>
+                    <td className="p-3 text-right font-mono font-bold">{r.score} / {r.maxScore}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const section = sections[sectionIndex];
+  const currentQ = section.questions[questionIndex];
+  const currentAns = answers[sectionIndex][questionIndex];
+  const isLastQuestion = sectionIndex === sections.length - 1 && questionIndex === section.questions.length - 1;
+
+  return (
+    <div className="h-screen w-full bg-slate-950 text-white flex flex-col relative overflow-hidden">
+      {/* Top Bar */}
+      <div className="px-6 py-4 flex justify-between items-center z-10 bg-slate-900/80 backdrop-blur-md">
+        <button onClick={() => { if (confirm("Quit the mock test? Progress will be lost.")) onBack(); }} className="text-slate-400 hover:text-white text-sm">Quit</button>
+        <div className="flex flex-col items-center">
+          <span className="text-xs text-slate-500 uppercase tracking-widest">Time Left</span>
+          <span className={`font-mono font-bold ${remaining < 600 ? 'text-red-400 animate-pulse' : 'text-rose-300'}`}>{formatClock(remaining)}</span>
+        </div>
+        <button onClick={submitMock} className="px-4 py-2 bg-green-600 hover:bg-green-500 rounded-lg text-sm font-bold">Submit</button>
+      </div>
+
+      {/* Section Tabs */}
+      <div className="flex border-b border-slate-800 bg-slate-900/60 overflow-x-auto">
+        {sections.map((sec, idx) => {
+          const answered = answers[idx].filter(a => a !== null).length;
+          return (
+            <button
+              key={sec.subject}
+              onClick={() => switchSection(idx)}
+              className={`flex-1 min-w-[110px] px-4 py-3 text-sm font-semibold border-b-2 transition-colors ${
+                idx === sectionIndex ? 'border-rose-500 text-white' : 'border-transparent text-slate-400 hover:text-white'
+              }`}
+            >
+              {sec.subject}
+              <span className="ml-2 text-xs font-mono text-slate-500">{answered}/{sec.questions.length}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Question */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="flex flex-col items-center justify-start pt-8 p-6 w-full max-w-2xl mx-auto">
+          <div className="w-full glass-panel p-6 md:p-8 rounded-2xl shadow-2xl">
+            <span className="text-xs font-mono text-slate-500">{section.subject} • Q{questionIndex + 1} of {section.questions.length}</span>
+            <h2 className="text-xl md:text-2xl font-bold leading-relaxed text-slate-100 mt-2">
+              <MathRenderer text={currentQ.text} />
+            </h2>
+            <div className="mb-8 text-slate-200"><QuestionDetails question={currentQ} /></div>
+
+            <div className="grid gap-4">
+              {currentQ.options.map((opt, optIdx) => {
+                const isSelected = currentAns === optIdx;
+                return (
+                  <button
+                    key={optIdx}
+                    onClick={() => selectAnswer(optIdx)}
+                    className={`w-full text-left p-4 rounded-xl border-2 transition-all duration-200 flex items-center gap-4 ${
+                      isSelected
+                        ? 'bg-rose-600/20 border-rose-500 text-rose-100'
+                        : 'bg-slate-800/40 border-slate-700 hover:bg-slate-700 hover:border-slate-500 text-slate-300'
+                    }`}
+                  >
+                    <span className={`flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold border ${
+                      isSelected ? 'border-rose-400 bg-rose-500 text-white' : 'border-slate-600 text-slate-500'
+                    }`}>
+                      {String.fromCharCode(65 + optIdx)}
+                    </span>
+                    <span className="text-base font-medium">
+                      <MathRenderer text={opt} />
+                      <OptionFigure question={currentQ} index={optIdx} />
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Navigation Controls */}
+          <div className="mt-8 flex items-center justify-between w-full px-4">
+            <button
+              onClick={goToPrev}
+              disabled={sectionIndex === 0 && questionIndex === 0}
+              className="px-6 py-3 rounded-lg border border-slate-700 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+            >
+              Previous
+            </button>
+            {isLastQuestion ? (
+              <button onClick={submitMock} className="px-8 py-3 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg">
+                Submit Test
+              </button>
+            ) : (
+              <button onClick={goToNext} className="px-8 py-3 bg-rose-600 hover:bg-rose-500 text-white font-bold rounded-lg">
+                {currentAns !== null ? 'Save & Next' : 'Skip'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockTestMode;
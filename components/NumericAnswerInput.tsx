@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { Answer } from '../types';
+
+interface NumericAnswerInputProps {
+  value: Answer; // null = no answer yet
+  unit?: string;
+  onChange: (value: Answer) => void;
+}
+
+// Free-entry answer box for numeric questions. Keeps the raw text locally so
+// partial input like "2." isn't reformatted while typing; mount it with a
+// per-question key so it resets between questions.
+const NumericAnswerInput: React.FC<NumericAnswerInputProps> = ({ value, unit, onChange }) => {
+  const [text, setText] = useState(value === null ? '' : String(value));
+
+  const handleChange = (raw: string) => {
+    setText(raw);
+    const parsed = parseFloat(raw);
+    onChange(raw.trim() !== '' && Number.isFinite(parsed) ? parsed : null);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        type="number"
+        inputMode="decimal"
+        step="any"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="Enter your answer"
+        className="flex-1 bg-slate-800 border-2 border-slate-700 focus:border-indigo-500 rounded-xl p-4 text-lg font-mono focus:outline-none"
+      />
+      {unit && <span className="text-slate-400 font-mono">{unit}</span>}
+    </div>
+  );
+};
+
+export default NumericAnswerInput;
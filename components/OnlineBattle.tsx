@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BattleConfig, ChoiceQuestion, OnlineRoomState, Player } from '../types';
+import { getQuestionProvider } from '../services/questionProvider';
+import { otherPlayer } from '../services/battleScoring';
+import {
+  RelayConnection,
+  RelayConnectionStatus,
+  RelaySeat,
+  clearSavedSeat,
+  connectToRelay,
+  loadSavedSeat,
+} from '../services/battleRelayClient';
+import { describeGenerationError } from '../services/generationErrors';
+import MathRenderer from './MathRenderer';
+import QuestionDetails from './QuestionDetails';
+import { OptionFigure } from './FigureView';
+import BattleReview from './BattleReview';
+
+interface OnlineBattleProps {
+  config: BattleConfig;
+  onExit: () => void;
+}
+
+const OnlineBattle: React.FC<OnlineBattleProps> = ({ config, onExit }) => {
+  const connectionRef = useRef<RelayConnection | null>(null);
+  const [status, setStatus] = useState<RelayConnectionStatus>('connecting');
+  const [seat, setSeat] = useState<RelaySeat | null>(loadSavedSeat());
+  const [room, setRoom] = useState<OnlineRoomState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
+
+  // Local countdown, re-synced from every relay snapshot
+  const deadlineRef = useRef<number | null>(null);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    const connection = connectToRelay({
+      onStatus: setStatus,
+      onSeat: setSeat,
+      onState: (state) => {
+        deadlineRef.current = state.roundTimeLeftMs !== null && !state.paused
+          ? Date.now() + state.roundTimeLeftMs
+          : null;
+        setTimeLeft(state.roundTimeLeftMs !== null ? Math.ceil(state.roundTimeLeftMs / 1000) : null);
+        setRoom(state);
+        setError(null);
+      },
+      onError: (code, message) => {
+        if (code === 'MATCH_ENDED') setSeat(null);
+        setError(message);
+      },
+    });
+    connectionRef.current = connection;
+    return () => connection.close();
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (deadlineRef.current !== null) {
+        setTimeLeft(Math.max(0, Math.ceil((deadlineRef.current - Date.now()) / 1000)));
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const createRoom = async () => {
+    setGenerating(true);
+    setError(null);
+    let questions: ChoiceQuestion[] = [];
+    let failure: unknown = null;
+    try {
+      questions = await getQuestionProvider().generateBattleQuestions(config.subject, config.topicIds, config.questionCount);
+    } catch (e) {
+      failure = e;
+    }
+    setGenerating(false);
+    if (questions.length === 0) {
+      const { title, message } = describeGenerationError(failure);
+      setError(`${title}: ${message}`);
+      return;
+    }
+    connectionRef.current?.send({ type: 'CREATE_ROOM', config, questions });
+  };
+
+  const joinRoom = () => {
+    if (!joinCode.trim()) return;
+    setError(null);
+    connectionRef.current?.send({ type: 'JOIN_ROOM', roomCode: joinCode.trim().toUpperCase() });
+  };
+
+  const leave = () => {
+    connectionRef.current?.send({ type: 'LEAVE' });
+    clearSavedSeat();
+    onExit();
+  };
+
+  const answer = (selectedIndex: number) => {
+    if (!room || room.phase !== 'PLAYING' || room.paused) return;
+    connectionRef.current?.send({ type: 'ANSWER', questionIndex: room.currentQIndex, selectedIndex });
+  };
+
+  const statusBadge = (
+    <span className={`text-xs px-2 py-1 rounded-full ${
+      status === 'open' ? 'bg-green-900 text-green-200' : 'bg-yellow-900 text-yellow-200 animate-pulse'
+    }`}>
+      {status === 'open' ? 'Connected' : status === 'closed' ? 'Offline' : 'Reconnecting...'}
+    </span>
+  );
+
+  // --- LOBBY ---
+
+  if (!room || !seat) {
+    return (
+      <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-900 text-white p-6 overflow-y-auto">
+        <div className="glass-panel p-8 rounded-2xl w-full max-w-md my-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <h2 className="text-3xl font-bold text-blue-400">Online Duel</h2>
+            {statusBadge}
+          </div>
+
+          {seat ? (
+            <p className="text-slate-300 text-sm animate-pulse">Rejoining room {seat.roomCode}...</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <p className="text-sm text-slate-400">
+                  Host a {config.questionCount}-question {config.subject} duel and share the room code.
+                </p>
+                <button
+                  onClick={createRoom}
+                  disabled={generating || status !== 'open'}
+                  className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-3 rounded-lg transition-colors"
+                >
+                  {generating ? 'Summoning Questions...' : 'Create Room'}
+                </button>
+              </div>
+
+              <div className="flex items-center gap-3 text-xs text-slate-500">
+                <div className="flex-1 h-px bg-slate-700"></div>OR<div className="flex-1 h-px bg-slate-700"></div>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  placeholder="ROOM CODE"
+                  maxLength={4}
+                  className="flex-1 bg-slate-800 border border-slate-600 rounded-lg p-3 font-mono tracking-widest text-center focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={joinRoom}
+                  disabled={status !== 'open'}
+                  className="px-6 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg font-bold"
+                >
+                  Join
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {status !== 'open' && (
+            <p className="text-xs text-slate-500">Start the relay with <code className="text-slate-300">npm run relay</code> if it isn't running.</p>
+          )}
+
+          <button onClick={leave} className="w-full text-slate-400 hover:text-white">Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  const me: Player = seat.player;
+  const opponent = otherPlayer(me);
+
+  // --- WAITING FOR OPPONENT ---
+
+  if (room.phase === 'WAITING') {
+    return (
+      <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-900 text-white p-6">
+        <div className="glass-panel p-10 rounded-3xl text-center space-y-6">
+          <p className="text-slate-400 uppercase tracking-widest text-sm">Room Code</p>
+          <div className="text-6xl font-black font-mono tracking-[0.3em] text-blue-300">{room.roomCode}</div>
+          <p className="text-slate-300 animate-pulse">Waiting for your opponent to join...</p>
+          {statusBadge}
+          <button onClick={leave} className="block mx-auto text-slate-400 hover:text-white">Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  // --- FINISHED ---
+
+  if (room.phase === 'FINISHED') {
+    const abandoned = room.abandonedBy !== null;
+    const won = abandoned ? room.abandonedBy === opponent : room.scores[me] > room.scores[opponent];
+    const draw = !abandoned && room.scores[me] === room.scores[opponent];
+    return (
+      <div className="h-screen w-full flex flex-col items-center bg-slate-900 text-white overflow-y-auto p-6 gap-8 pb-10">
+        <div className="glass-panel p-10 rounded-3xl text-center mt-4">
+          <h1 className="text-5xl font-black mb-4 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">
+            {draw ? 'DRAW!' : won ? 'YOU WIN!' : 'YOU LOSE'}
+          </h1>
+          {abandoned && (
+            <p className="text-slate-400 mb-4">{room.abandonedBy === me ? 'You left the match.' : 'Your opponent left the match.'}</p>
+          )}
+          <div className="flex justify-center gap-12 text-3xl font-bold mb-8">
+            <div className="text-blue-400">You: {room.scores[me]}</div>
+            <div className="text-red-400">Them: {room.scores[opponent]}</div>
+          </div>
+          <button onClick={leave} className="bg-white text-slate-900 px-8 py-3 rounded-full font-bold hover:bg-slate-200">
+            Return to Setup
+          </button>
+        </div>
+        <BattleReview
+          subject={room.config.subject}
+          questions={room.questions}
+          rounds={room.rounds}
+          playerLabel={(p) => (p === me ? 'You' : 'Opponent')}
+        />
+      </div>
+    );
+  }
+
+  // --- PLAYING ---
+
+  const roundOver = room.phase === 'ROUND_OVER' && room.lastRound;
+  // The relay only sends the key once the round is over
+  const revealed = roundOver ? room.questions[room.currentQIndex] : null;
+  const currentQ = revealed ?? room.currentQuestion!;
+  const iWonRound = roundOver && room.lastRound!.roundWinner === me;
+
+  return (
+    <div className={`h-screen w-full flex flex-col text-white overflow-hidden transition-colors duration-500 ${
+      !roundOver ? 'bg-slate-900' : iWonRound ? 'bg-green-700' : 'bg-red-900/60'
+    }`}>
+      {/* Top Bar */}
+      <div className="px-6 py-4 flex justify-between items-center bg-slate-900/80 backdrop-blur-md">
+        <button onClick={() => { if (confirm('Leave the match? Your opponent will win.')) leave(); }} className="text-slate-400 hover:text-white text-sm">Quit</button>
+        <div className="flex items-center gap-3">
+          <span className="bg-blue-500 px-3 py-1 rounded-full font-bold text-sm">You: {room.scores[me]}</span>
+          <span className="bg-red-500 px-3 py-1 rounded-full font-bold text-sm">Them: {room.scores[opponent]}</span>
+        </div>
+        {statusBadge}
+      </div>
+
+      {room.paused && (
+        <div className="bg-yellow-900/80 text-yellow-100 text-center text-sm py-2">
+          {room.connected[opponent] ? 'Reconnecting...' : 'Opponent disconnected. Waiting for them to rejoin...'}
+        </div>
+      )}
+
+      <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+        <span className="text-slate-400 text-sm mb-2 font-mono">
+          QUESTION {room.currentQIndex + 1}/{room.questionCount}
+          {timeLeft !== null && !roundOver && <span className={`ml-3 ${timeLeft <= 3 ? 'text-red-400' : ''}`}>⏱ {timeLeft}s</span>}
+        </span>
+        <h2 className="text-2xl font-bold max-w-xl leading-relaxed">
+          <MathRenderer text={currentQ.text} />
+        </h2>
+        <div className="max-w-xl w-full text-slate-200"><QuestionDetails question={currentQ} compact /></div>
+        {roundOver && (
+          <p className="mt-4 text-lg font-semibold animate-pop">
+            {room.lastRound!.answeredBy === null
+              ? "Time's up!"
+              : room.lastRound!.answeredBy === me
+                ? (room.lastRound!.isCorrect ? 'You got it first!' : 'Wrong answer!')
+                : (room.lastRound!.isCorrect ? 'Opponent was faster!' : 'Opponent slipped up!')}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 p-4">
+        {currentQ.options.map((opt, idx) => {
+          const isCorrectOption = revealed !== null && idx === revealed.correctIndex;
+          return (
+            <button
+              key={idx}
+              disabled={room.phase !== 'PLAYING' || room.paused}
+              onClick={() => answer(idx)}
+              className={`p-4 rounded-xl text-lg font-semibold active:scale-95 transition-transform disabled:opacity-70 text-white ${
+                isCorrectOption ? 'bg-green-600 ring-2 ring-green-300' : 'bg-slate-700 hover:bg-slate-600'
+              }`}
+            >
+              <MathRenderer text={opt} />
+              <OptionFigure question={currentQ} index={idx} />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OnlineBattle;
@@ -1,45 +1,99 @@
-import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Subject, PracticeConfig, Question } from '../types';
-import { NEET_SYLLABUS } from '../constants';
-import { generatePracticeQuestions } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Answer, Subject, PracticeConfig, PracticeAttempt, PracticeSession, BlueprintMode, BlueprintEntry, Deck, Question, QuestionPack, PackValidationError, PackFormat, ReviewCard, TutorMessage } from '../types';
+import { ADAPTIVE_BATCH_SIZE, DIFFICULTY_LEVELS, SESSION_SNAPSHOT_INTERVAL_MS } from '../constants';
+import { createQuestionPack, downloadPack, importPackFile } from '../services/questionPack';
+import { getChapterBreakdown, saveAttempt } from '../services/attemptHistory';
+import { clearSession, loadSession, saveSession } from '../services/practiceSession';
+import { downloadAttemptCsv, downloadAttemptReport, printAttemptReport } from '../services/attemptReport';
+import { addMissedToReviewDeck, getDueCards, gradeAnswer, recordReviews } from '../services/spacedRepetition';
+import { GenerationErrorInfo, describeGenerationError } from '../services/generationErrors';
+import { chapterIdsForTopics, findChapter, getSyllabus, topicIdsForChapters } from '../services/syllabus';
+import { blueprintChapterIds, blueprintTotal, buildBlueprint, generateFromBlueprint, sliceBlueprint, weightageBlueprint } from '../services/blueprint';
+import { difficultyForAbility, estimateAbility, expectedScore } from '../services/adaptive';
+import { formatAnswer, formatCorrectAnswer, isAnswerCorrect, isChoiceQuestion } from '../services/questionFormat';
 import MathRenderer from './MathRenderer';
+import QuestionDetails from './QuestionDetails';
+import { OptionFigure } from './FigureView';
+import NumericAnswerInput from './NumericAnswerInput';
+import TutorChat from './TutorChat';
+import { ReportQuestionButton } from './QuestionEditor';
+import BookmarkButton from './BookmarkButton';
+import ChapterSelector from './ChapterSelector';
+import QuestionPalette, { PaletteLegend, countStatuses, getPaletteStatus } from './QuestionPalette';
 
 interface PracticeModeProps {
   onBack: () => void;
+  reviewMode?: boolean; // Quiz the due spaced-repetition cards instead of generating questions
+  deck?: Deck; // Quiz a saved deck instead of generating questions
+  resume?: boolean; // Pick up the saved unfinished session
 }
 
-const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
-  const [step, setStep] = useState(1); // 1: Subject, 2: Chapter, 3: Config, 4: Quiz, 5: Result
+const PracticeMode: React.FC<PracticeModeProps> = ({ onBack, reviewMode = false, deck, resume = false }) => {
+  const presetQuiz = reviewMode || !!deck || resume; // Straight into a quiz over existing questions
+  const keepsSession = !reviewMode && !deck; // Review cards and decks are quick to start again
+  const [step, setStep] = useState(presetQuiz ? 4 : 1); // 1: Subject, 2: Chapter, 3: Config, 4: Quiz, 5: Result
   const [config, setConfig] = useState<PracticeConfig>({
     subject: Subject.BOTANY,
-    chapters: [],
+    topicIds: [],
     questionCount: 10,
-    customPrompt: ''
+    customPrompt: '',
+    difficulty: 'MEDIUM',
+    adaptive: false,
+    blueprintMode: 'WEIGHTAGE',
   });
   
-  const [loading, setLoading] = useState(false);
+  const [loading, setLoading] = useState(presetQuiz);
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [answers, setAnswers] = useState<number[]>([]); // User selected indices
+  const [answers, setAnswers] = useState<Answer[]>([]);
   const [timeTaken, setTimeTaken] = useState<number[]>([]); // Seconds per question
+
+  // Streamed generation: the quiz starts with the first question while the rest load
+  const [streaming, setStreaming] = useState(false);
+  const [expectedCount, setExpectedCount] = useState(0);
+  const generationRef = useRef<AbortController | null>(null); // The generation whose updates are applied
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<GenerationErrorInfo | null>(null);
+
+  // Adaptive sessions generate the blueprint a batch at a time, each batch at
+  // the difficulty matching the answers so far
+  const [adaptiveSession, setAdaptiveSession] = useState(false);
+  const [adaptivePending, setAdaptivePending] = useState(false); // More batches to come
+  const blueprintRef = useRef<BlueprintEntry[]>([]);
+  const blueprintOffsetRef = useRef(0); // Blueprint questions requested so far
   
   // Quiz State
   const [currentQIndex, setCurrentQIndex] = useState(0);
   const [slideDir, setSlideDir] = useState<'right' | 'left'>('right');
+
+  // Palette State
+  const [visited, setVisited] = useState<boolean[]>([]);
+  const [markedForReview, setMarkedForReview] = useState<boolean[]>([]);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showSubmitSummary, setShowSubmitSummary] = useState(false);
   
   // Timer Refs
   const questionStartTimeRef = useRef<number>(Date.now());
   const autoAdvanceTimerRef = useRef<any>(null);
   const [currentTimerDisplay, setCurrentTimerDisplay] = useState(0); // Just for UI display
 
+  // Question pack import
+  const [importedPack, setImportedPack] = useState<QuestionPack | null>(null);
+  const [importErrors, setImportErrors] = useState<PackValidationError[]>([]);
+  const packInputRef = useRef<HTMLInputElement>(null);
+
+  // "Ask the tutor" conversations by question id. The ref always holds the
+  // latest chats, since replies arrive after the render that sent them.
+  const [tutorChats, setTutorChats] = useState<Record<string, TutorMessage[]>>({});
+  const tutorChatsRef = useRef<Record<string, TutorMessage[]>>({});
+  const savedAttemptRef = useRef<PracticeAttempt | null>(null);
+
+  // Spaced-repetition cards being reviewed (review mode only)
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+
   // Touch/Swipe State
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
 
-  // Derived state for chapters based on subject
-  const availableChapters = useMemo(() => 
-    NEET_SYLLABUS.filter(c => c.subject === config.subject),
-  [config.subject]);
-
   // Live timer update
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -52,44 +106,307 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
     return () => clearInterval(interval);
   }, [step, currentQIndex]);
 
-  // Cleanup auto-advance timer on unmount
+  // Load due review cards straight into the quiz
+  useEffect(() => {
+    if (!reviewMode) return;
+    getDueCards().then(cards => {
+      setReviewCards(cards);
+      setLoading(false);
+      if (cards.length > 0) beginQuiz(cards.map(c => c.question));
+    });
+  }, [reviewMode]);
+
+  // A deck is played as it is, in the order it was saved
+  useEffect(() => {
+    if (!deck) return;
+    beginQuiz(deck.entries.map(e => e.question));
+    setLoading(false);
+  }, [deck]);
+
+  // Persist the attempt once the results screen is reached. Runs as an effect
+  // so the final recordTime() update is included.
+  const attemptSavedRef = useRef(false);
+  useEffect(() => {
+    if (step !== 5 || attemptSavedRef.current || questions.length === 0) return;
+    attemptSavedRef.current = true;
+
+    if (reviewMode) {
+      const grades = questions.map((q, i) => gradeAnswer(q, answers[i], timeTaken[i]));
+      recordReviews(reviewCards, grades);
+      return;
+    }
+    if (deck) return; // Replaying saved questions isn't a new attempt
+
+    clearSession(); // Submitted, so there is nothing left to resume
+
+    const attempt = buildAttempt();
+    savedAttemptRef.current = attempt;
+    saveAttempt(attempt);
+    addMissedToReviewDeck(attempt);
+  }, [step]);
+
+  // Carry on from the snapshot, with the clock on the current question where it stopped
+  useEffect(() => {
+    if (!resume) return;
+    const session = loadSession();
+    setLoading(false);
+    if (!session) {
+      setStep(1); // Expired or cleared since the menu offered it
+      return;
+    }
+    restoreSession(session);
+  }, [resume]);
+
+  // Snapshot the quiz whenever it changes, on a timer so time on the current
+  // question keeps counting, and when the page is hidden or closed
+  useEffect(() => {
+    if (!keepsSession || step !== 4 || questions.length === 0) return;
+    const snapshot = () => saveSession(buildSession());
+    snapshot();
+    const interval = setInterval(snapshot, SESSION_SNAPSHOT_INTERVAL_MS);
+    const onHidden = () => { if (document.visibilityState === 'hidden') snapshot(); };
+    document.addEventListener('visibilitychange', onHidden);
+    window.addEventListener('pagehide', snapshot);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onHidden);
+      window.removeEventListener('pagehide', snapshot);
+    };
+  }, [step, questions, answers, timeTaken, currentQIndex, visited, markedForReview]);
+
+  // Track which questions have been seen, for the palette
+  useEffect(() => {
+    if (step !== 4 || questions.length === 0) return;
+    setVisited(prev => prev.map((v, i) => v || i === currentQIndex));
+  }, [step, currentQIndex, questions.length]);
+
+  // Fetch the next adaptive batch once the student reaches the last ready question
+  useEffect(() => {
+    if (step !== 4 || !adaptivePending || streaming || currentQIndex < questions.length - 1) return;
+    loadAdaptiveBatch();
+  }, [step, adaptivePending, streaming, currentQIndex, questions.length]);
+
+  // Cleanup auto-advance timer and any pending generation on unmount
   useEffect(() => {
     return () => {
       if (autoAdvanceTimerRef.current) clearTimeout(autoAdvanceTimerRef.current);
+      generationRef.current?.abort();
     };
   }, []);
 
-  const toggleChapter = (chapName: string) => {
-    setConfig(prev => {
-      const exists = prev.chapters.includes(chapName);
-      if (exists) return { ...prev, chapters: prev.chapters.filter(c => c !== chapName) };
-      return { ...prev, chapters: [...prev.chapters, chapName] };
-    });
+  const getSelectedChapterIds = () => chapterIdsForTopics(config.topicIds);
+
+  // Review cards and deck entries can mix subjects
+  const buildAttempt = (): PracticeAttempt => ({
+    id: `attempt-${Date.now()}`,
+    subject: config.subject,
+    chapterIds: getSelectedChapterIds(),
+    topicIds: config.topicIds,
+    syllabusVersion: getSyllabus().version,
+    completedAt: Date.now(),
+    questions,
+    answers,
+    timeTaken,
+    ...(adaptiveSession && { ability: estimateAbility(questions, answers, config.difficulty).theta }),
+  });
+
+  // Questions of an adaptive batch still in flight are not kept; the blueprint
+  // lets a resumed session request them again
+  const buildSession = (): PracticeSession => ({
+    config,
+    questions,
+    answers,
+    timeTaken,
+    currentQIndex,
+    currentQuestionSeconds: Math.floor((Date.now() - questionStartTimeRef.current) / 1000),
+    visited,
+    markedForReview,
+    ...(adaptiveSession && { blueprint: blueprintRef.current }),
+    savedAt: Date.now(),
+  });
+
+  const restoreSession = (session: PracticeSession) => {
+    const blueprint = session.blueprint ?? [];
+    const more = session.questions.length < blueprintTotal(blueprint);
+    setConfig(session.config);
+    beginQuiz(session.questions);
+    setAnswers(session.answers);
+    setTimeTaken(session.timeTaken);
+    setVisited(session.visited);
+    setMarkedForReview(session.markedForReview);
+    setCurrentQIndex(session.currentQIndex);
+    questionStartTimeRef.current = Date.now() - session.currentQuestionSeconds * 1000;
+    blueprintRef.current = blueprint;
+    blueprintOffsetRef.current = session.questions.length;
+    setAdaptiveSession(!!session.blueprint);
+    setAdaptivePending(more);
+    setExpectedCount(more ? blueprintTotal(blueprint) : session.questions.length);
+  };
+
+  const subjectOf = (idx: number): Subject =>
+    (reviewMode ? reviewCards[idx]?.subject : deck?.entries[idx]?.subject) ?? config.subject;
+
+  const beginQuiz = (qs: Question[]) => {
+    attemptSavedRef.current = false;
+    savedAttemptRef.current = null;
+    tutorChatsRef.current = {};
+    setTutorChats({});
+    setQuestions(qs);
+    setAnswers(new Array(qs.length).fill(null));
+    setTimeTaken(new Array(qs.length).fill(0));
+    setVisited(new Array(qs.length).fill(false));
+    setMarkedForReview(new Array(qs.length).fill(false));
+    setShowSubmitSummary(false);
+    setCurrentQIndex(0);
+    questionStartTimeRef.current = Date.now();
+    setStep(4);
+  };
+
+  // Questions that arrive after the quiz has started; progress so far is kept
+  const extendQuiz = (qs: Question[]) => {
+    const pad = <T,>(prev: T[], fill: T): T[] =>
+      [...prev, ...new Array(Math.max(0, qs.length - prev.length)).fill(fill)];
+    setQuestions(qs);
+    setAnswers(prev => pad<Answer>(prev, null));
+    setTimeTaken(prev => pad(prev, 0));
+    setVisited(prev => pad(prev, false));
+    setMarkedForReview(prev => pad(prev, false));
+  };
+
+  const stopStreaming = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setStreaming(false);
+    setAdaptivePending(false);
+  };
+
+  const moreComing = streaming || adaptivePending;
+
+  const cancelGeneration = () => {
+    stopStreaming();
+    setLoading(false);
+    setStep(3);
   };
 
   const startPractice = async () => {
+    generationRef.current?.abort();
+    const generation = new AbortController();
+    generationRef.current = generation;
+    let started = false;
+    const showReady = (qs: Question[]) => {
+      if (generationRef.current !== generation || qs.length === 0) return;
+      setRetryNotice(null);
+      if (started) {
+        extendQuiz(qs);
+        return;
+      }
+      started = true;
+      setLoading(false);
+      beginQuiz(qs);
+    };
+
+    const blueprint = buildBlueprint(config);
+    const firstBatch = config.adaptive ? sliceBlueprint(blueprint, 0, ADAPTIVE_BATCH_SIZE) : blueprint;
+    blueprintRef.current = blueprint;
+    blueprintOffsetRef.current = blueprintTotal(firstBatch);
+    setAdaptiveSession(!!config.adaptive);
+    setAdaptivePending(false);
     setLoading(true);
     setQuestions([]);
-    const qs = await generatePracticeQuestions(
-      config.subject,
-      config.chapters,
-      config.questionCount,
-      config.customPrompt
-    );
-    setLoading(false);
-    
-    if (qs && qs.length > 0) {
-      setQuestions(qs);
-      setAnswers(new Array(qs.length).fill(-1));
-      setTimeTaken(new Array(qs.length).fill(0));
-      setCurrentQIndex(0);
-      questionStartTimeRef.current = Date.now();
-      setStep(4);
+    setExpectedCount(blueprintTotal(blueprint));
+    setStreaming(true);
+    setRetryNotice(null);
+    setGenerationError(null);
+
+    let qs: Question[] = [];
+    let failure: unknown = null;
+    try {
+      qs = await generateFromBlueprint(config, firstBatch, {
+        onProgress: showReady,
+        onRetry: showRetry,
+        signal: generation.signal,
+      });
+    } catch (error) {
+      failure = error;
+    }
+    if (generationRef.current !== generation) return; // Cancelled or superseded
+    generationRef.current = null;
+    setStreaming(false);
+    setRetryNotice(null);
+
+    if (qs.length > 0) {
+      showReady(qs);
+      setAdaptivePending(blueprintOffsetRef.current < blueprintTotal(blueprint));
     } else {
+      setGenerationError(describeGenerationError(failure));
+      setLoading(false);
       setStep(4); // Will trigger error view
     }
   };
 
+  // The next slice of the blueprint, at the level the answers so far point to.
+  // If it fails the session just ends early; what has been answered still counts.
+  const loadAdaptiveBatch = async () => {
+    const generation = new AbortController();
+    generationRef.current = generation;
+    const existing = questions;
+    const difficulty = difficultyForAbility(estimateAbility(existing, answers, config.difficulty).theta);
+    const batch = sliceBlueprint(blueprintRef.current, blueprintOffsetRef.current, ADAPTIVE_BATCH_SIZE);
+    blueprintOffsetRef.current += blueprintTotal(batch);
+    setStreaming(true);
+
+    let qs: Question[] = [];
+    try {
+      qs = await generateFromBlueprint({ ...config, difficulty }, batch, {
+        onProgress: ready => { if (generationRef.current === generation) extendQuiz([...existing, ...ready]); },
+        onRetry: showRetry,
+        signal: generation.signal,
+      }, existing);
+    } catch (error) {
+      console.error("Adaptive batch failed:", error);
+    }
+    if (generationRef.current !== generation) return; // Cancelled or submitted
+    generationRef.current = null;
+    setStreaming(false);
+    setRetryNotice(null);
+
+    if (qs.length > 0) extendQuiz([...existing, ...qs]);
+    const more = qs.length > 0 && blueprintOffsetRef.current < blueprintTotal(blueprintRef.current);
+    setAdaptivePending(more);
+    if (!more) setExpectedCount(existing.length + qs.length);
+  };
+
+  const showRetry = (attempt: number, delayMs: number, error: Error) =>
+    setRetryNotice(`${error.message} Retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1})...`);
+
+  const handlePackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    const { pack, errors } = await importPackFile(file);
+    setImportedPack(pack);
+    setImportErrors(errors);
+    if (pack && errors.length === 0) startImportedPack(pack);
+  };
+
+  const startImportedPack = (pack: QuestionPack) => {
+    setConfig({ ...config, subject: pack.subject, topicIds: topicIdsForChapters(pack.chapterIds), questionCount: pack.questions.length });
+    setImportedPack(null);
+    setImportErrors([]);
+    setAdaptiveSession(false);
+    setAdaptivePending(false);
+    beginQuiz(pack.questions);
+  };
+
+  const exportQuestions = (format: PackFormat) => {
+    downloadPack(createQuestionPack(config.subject, getSelectedChapterIds(), questions), format);
+  };
+
+  // Review and deck plays aren't saved, so their report is built on the spot
+  const reportAttempt = () => savedAttemptRef.current ?? buildAttempt();
+  const reportTitle = reviewMode ? 'Review Results' : deck ? deck.name : 'Exam Results';
+
   const recordTime = () => {
     const now = Date.now();
     const duration = Math.floor((now - questionStartTimeRef.current) / 1000);
@@ -109,6 +426,7 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
   };
 
   const goToNext = () => {
+    if (moreComing && currentQIndex === questions.length - 1) return; // Next question is still loading
     clearAutoAdvance(); // Stop any pending auto-advance
     recordTime();
     if (currentQIndex < questions.length - 1) {
@@ -116,7 +434,7 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
       setCurrentQIndex(prev => prev + 1);
       questionStartTimeRef.current = Date.now();
     } else {
-      setStep(5);
+      openSubmitSummary();
     }
   };
 
@@ -130,6 +448,46 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
     }
   };
 
+  const goToQuestion = (idx: number) => {
+    clearAutoAdvance();
+    setShowPalette(false);
+    if (idx === currentQIndex) return;
+    recordTime();
+    setSlideDir(idx > currentQIndex ? 'right' : 'left');
+    setCurrentQIndex(idx);
+    questionStartTimeRef.current = Date.now();
+  };
+
+  const toggleMarkForReview = () => {
+    setMarkedForReview(prev => prev.map((m, i) => (i === currentQIndex ? !m : m)));
+  };
+
+  // Time is recorded by the caller; the clock restarts so that cancelling the
+  // summary resumes timing the current question.
+  const openSubmitSummary = () => {
+    questionStartTimeRef.current = Date.now();
+    setShowSubmitSummary(true);
+  };
+
+  const requestSubmit = () => {
+    clearAutoAdvance();
+    recordTime();
+    openSubmitSummary();
+  };
+
+  // The snapshot is brought up to date first, so the resumed clock is exact
+  const quit = () => {
+    stopStreaming();
+    if (keepsSession) saveSession(buildSession());
+    onBack();
+  };
+
+  const confirmSubmit = () => {
+    stopStreaming(); // Questions still loading are left out of this attempt
+    setShowSubmitSummary(false);
+    setStep(5);
+  };
+
   const handleSelectAnswer = (optIdx: number) => {
     const newAnswers = [...answers];
     newAnswers[currentQIndex] = optIdx;
@@ -145,6 +503,13 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
     }
   };
 
+  // Typed answers don't auto-advance; the student moves on when done
+  const handleNumericAnswer = (value: Answer) => {
+    const newAnswers = [...answers];
+    newAnswers[currentQIndex] = value;
+    setAnswers(newAnswers);
+  };
+
   // Swipe Handlers
   const minSwipeDistance = 50;
 
@@ -171,8 +536,33 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
     }
   };
 
+  // Switching to a manual split starts from the weightage split
+  const setBlueprintMode = (mode: BlueprintMode) => {
+    const manualSplit = mode === 'MANUAL' && !config.manualSplit
+      ? Object.fromEntries(
+          weightageBlueprint(blueprintChapterIds(config.subject, config.topicIds), config.questionCount)
+            .map(e => [e.chapterId, e.count])
+        )
+      : config.manualSplit;
+    setConfig({ ...config, blueprintMode: mode, manualSplit });
+  };
+
+  const setManualCount = (chapterId: string, count: number) => {
+    setConfig({ ...config, manualSplit: { ...config.manualSplit, [chapterId]: Math.max(0, count || 0) } });
+  };
+
+  // Chats are saved with the attempt as they grow (review sessions have no attempt)
+  const updateTutorChat = (questionId: string, messages: TutorMessage[]) => {
+    tutorChatsRef.current = { ...tutorChatsRef.current, [questionId]: messages };
+    setTutorChats(tutorChatsRef.current);
+    if (savedAttemptRef.current) {
+      savedAttemptRef.current = { ...savedAttemptRef.current, tutorChats: tutorChatsRef.current };
+      saveAttempt(savedAttemptRef.current);
+    }
+  };
+
   const calculateScore = () => {
-    return questions.reduce((acc, q, idx) => acc + (q.correctIndex === answers[idx] ? 1 : 0), 0);
+    return questions.reduce((acc, q, idx) => acc + (isAnswerCorrect(q, answers[idx]) ? 1 : 0), 0);
   };
 
   // --- RENDER STEPS ---
@@ -181,7 +571,12 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
     return (
       <div className="h-screen w-full bg-slate-900 flex flex-col items-center justify-center text-white overflow-hidden">
         <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-        <p className="text-lg animate-pulse">Generating {config.subject} Questions...</p>
+        <p className="text-lg animate-pulse">{reviewMode ? 'Loading Review Deck...' : deck ? `Loading ${deck.name}...` : resume ? 'Restoring Session...' : `Generating ${config.subject} Questions...`}</p>
+        {streaming && <p className="text-sm text-slate-400 mt-2">0 of {expectedCount} ready</p>}
+        {retryNotice && <p className="text-sm text-yellow-300 mt-4 max-w-sm text-center">{retryNotice}</p>}
+        {!presetQuiz && (
+          <button onClick={cancelGeneration} className="mt-8 text-sm text-slate-400 hover:text-white">Cancel</button>
+        )}
       </div>
     );
   }
@@ -195,13 +590,50 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
           {Object.values(Subject).map((sub) => (
             <button
               key={sub}
-              onClick={() => { setConfig({ ...config, subject: sub, chapters: [] }); setStep(2); }}
+              onClick={() => { setConfig({ ...config, subject: sub, topicIds: [] }); setStep(2); }}
               className="glass-panel p-8 rounded-xl text-2xl font-bold hover:bg-white/10 transition-all border-l-4 border-indigo-500 text-left"
             >
               {sub}
             </button>
           ))}
         </div>
+
+        {/* Question Pack Import */}
+        <div className="w-full max-w-2xl mb-10">
+          <input ref={packInputRef} type="file" accept=".json,.csv" onChange={handlePackFile} className="hidden" />
+          <button
+            onClick={() => packInputRef.current?.click()}
+            className="w-full p-4 rounded-xl border border-dashed border-slate-600 text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            Import Question Pack (JSON / CSV)
+          </button>
+
+          {importErrors.length > 0 && (
+            <div className="mt-4 glass-panel p-4 rounded-xl border-l-4 border-yellow-500 text-sm">
+              <h4 className="font-bold text-yellow-300 mb-2">
+                {importedPack
+                  ? `${importErrors.length} row(s) skipped, ${importedPack.questions.length} valid questions`
+                  : 'Pack could not be imported'}
+              </h4>
+              <ul className="space-y-1 max-h-40 overflow-y-auto text-slate-300 font-mono text-xs">
+                {importErrors.map((err, i) => (
+                  <li key={i}>
+                    {err.row > 0 ? `Row ${err.row}` : 'Pack'}{err.field ? ` [${err.field}]` : ''}: {err.message}
+                  </li>
+                ))}
+              </ul>
+              {importedPack && (
+                <button
+                  onClick={() => startImportedPack(importedPack)}
+                  className="mt-4 px-6 py-2 bg-indigo-600 rounded-lg font-bold hover:bg-indigo-500"
+                >
+                  Start with {importedPack.questions.length} Questions
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
         <button onClick={onBack} className="text-slate-400 hover:text-white pb-10">Exit</button>
       </div>
     );
@@ -217,24 +649,15 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
             <button onClick={() => setStep(1)} className="text-sm text-slate-400">Change Subject</button>
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-            {availableChapters.map((chap) => (
-              <button
-                key={chap.id}
-                onClick={() => toggleChapter(chap.name)}
-                className={`p-4 rounded-lg text-left text-sm transition-colors border ${
-                  config.chapters.includes(chap.name)
-                    ? 'bg-indigo-600 border-indigo-400 text-white'
-                    : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
-                }`}
-              >
-                {chap.name}
-              </button>
-            ))}
-          </div>
+          <ChapterSelector
+            subject={config.subject}
+            selected={config.topicIds}
+            onChange={(topicIds) => setConfig({ ...config, topicIds })}
+            showTopics
+          />
 
           <div className="mt-8 border-t border-slate-700 pt-6 flex justify-between items-center sticky bottom-0 bg-slate-900/95 p-4 rounded-t-xl backdrop-blur-sm">
-            <span className="text-slate-400">{config.chapters.length > 0 ? `${config.chapters.length} selected` : 'All chapters'}</span>
+            <span className="text-slate-400">{config.topicIds.length > 0 ? `${getSelectedChapterIds().length} chapter(s), ${config.topicIds.length} topic(s)` : 'All chapters'}</span>
             <button
               onClick={() => setStep(3)}
               className="bg-white text-indigo-900 px-8 py-3 rounded-full font-bold hover:scale-105 transition-transform"
@@ -249,26 +672,106 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
 
   // Step 3: Configuration
   if (step === 3) {
+    const isManual = config.blueprintMode === 'MANUAL';
+    const blueprint = buildBlueprint(config);
+    const plannedTotal = blueprintTotal(blueprint);
     return (
       <div className="h-screen w-full bg-slate-900 text-white flex items-center justify-center p-6 overflow-y-auto">
         <div className="glass-panel p-8 rounded-2xl w-full max-w-lg space-y-6 my-auto">
           <h2 className="text-2xl font-bold text-indigo-400">Customize Practice</h2>
           
+          {!isManual && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Number of Questions</label>
+              <input
+                type="range" min="5" max="30" step="5"
+                value={config.questionCount}
+                onChange={(e) => setConfig({ ...config, questionCount: parseInt(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+              <div className="text-right text-indigo-300 font-mono">{config.questionCount} Questions</div>
+            </div>
+          )}
+
+          {/* Difficulty, fixed or adaptive */}
           <div>
-            <label className="block text-sm font-medium mb-2">Number of Questions</label>
-            <input
-              type="range" min="5" max="30" step="5"
-              value={config.questionCount}
-              onChange={(e) => setConfig({ ...config, questionCount: parseInt(e.target.value) })}
-              className="w-full accent-indigo-500"
-            />
-            <div className="text-right text-indigo-300 font-mono">{config.questionCount} Questions</div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">{config.adaptive ? 'Starting Difficulty' : 'Difficulty'}</label>
+              <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!config.adaptive}
+                  onChange={(e) => setConfig({ ...config, adaptive: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                Adaptive
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {DIFFICULTY_LEVELS.map(level => (
+                <button
+                  key={level.id}
+                  onClick={() => setConfig({ ...config, difficulty: level.id })}
+                  className={`py-2 rounded-lg text-sm border transition-colors ${
+                    config.difficulty === level.id
+                      ? 'bg-indigo-600 border-indigo-400 text-white'
+                      : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-500'
+                  }`}
+                >
+                  {level.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              {config.adaptive
+                ? `Questions arrive in batches of ${ADAPTIVE_BATCH_SIZE}, each pitched at your ability as estimated from your answers so far.`
+                : DIFFICULTY_LEVELS.find(l => l.id === config.difficulty)?.description}
+            </p>
+          </div>
+
+          {/* Blueprint: questions per chapter */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">Questions per Chapter</label>
+              <div className="flex text-xs rounded-lg border border-slate-600 overflow-hidden">
+                {(['WEIGHTAGE', 'MANUAL'] as BlueprintMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setBlueprintMode(mode)}
+                    className={`px-3 py-1 ${(config.blueprintMode ?? 'WEIGHTAGE') === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {mode === 'WEIGHTAGE' ? 'By weightage' : 'Manual'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+              {blueprintChapterIds(config.subject, config.topicIds).map(chapterId => {
+                const count = blueprint.find(e => e.chapterId === chapterId)?.count ?? 0;
+                return (
+                  <div key={chapterId} className="flex items-center justify-between gap-4 text-sm">
+                    <span className={count > 0 || isManual ? 'text-slate-300' : 'text-slate-600'}>{findChapter(chapterId)?.chapter.name}</span>
+                    {isManual ? (
+                      <input
+                        type="number" min="0" max="30"
+                        value={config.manualSplit?.[chapterId] ?? 0}
+                        onChange={(e) => setManualCount(chapterId, parseInt(e.target.value))}
+                        className="w-16 bg-slate-800 border border-slate-600 rounded p-1 text-right font-mono focus:outline-none focus:border-indigo-500"
+                      />
+                    ) : (
+                      <span className="font-mono text-indigo-300">{count}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {isManual && <div className="text-right text-indigo-300 font-mono mt-2">{plannedTotal} Questions</div>}
           </div>
 
           <div>
             <label className="block text-sm font-medium mb-2">Prompt Modifier (Optional)</label>
             <textarea
-              placeholder="e.g., 'Focus on assertion-reason questions', 'Include PYQs from 2020-2023', 'Make it very hard'"
+              placeholder="e.g., 'Focus on assertion-reason questions', 'Include PYQs from 2020-2023', 'More numericals'"
               value={config.customPrompt}
               onChange={(e) => setConfig({ ...config, customPrompt: e.target.value })}
               className="w-full bg-slate-800 border border-slate-600 rounded-lg p-3 h-24 text-sm focus:outline-none focus:border-indigo-500 resize-none"
@@ -277,7 +780,13 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
 
           <div className="flex gap-4 pt-4">
             <button onClick={() => setStep(2)} className="flex-1 py-3 border border-slate-600 rounded-lg hover:bg-slate-800">Back</button>
-            <button onClick={startPractice} className="flex-1 py-3 bg-indigo-600 rounded-lg font-bold hover:bg-indigo-500">Start Exam</button>
+            <button
+              onClick={startPractice}
+              disabled={plannedTotal === 0}
+              className="flex-1 py-3 bg-indigo-600 rounded-lg font-bold hover:bg-indigo-500 disabled:opacity-40"
+            >
+              Start Exam
+            </button>
           </div>
         </div>
       </div>
@@ -287,64 +796,165 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
   // Step 5: Results Dashboard
   if (step === 5) {
      const score = calculateScore();
+     const chapterBreakdown = getChapterBreakdown(questions, answers, timeTaken);
+     const ability = adaptiveSession ? estimateAbility(questions, answers, config.difficulty) : null;
+     const abilityLow = ability ? Math.min(-2, ...ability.history) : 0;
+     const abilityHigh = ability ? Math.max(2, ...ability.history) : 0;
      return (
        <div className="h-screen w-full bg-slate-900 text-white p-4 md:p-8 overflow-y-auto">
          <div className="max-w-4xl mx-auto space-y-8 pb-10">
             {/* Header / Score Card */}
             <div className="glass-panel p-8 rounded-2xl text-center relative overflow-hidden mt-4">
                <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
-               <h2 className="text-3xl font-bold text-slate-100 mb-2">Exam Results</h2>
+               <h2 className="text-3xl font-bold text-slate-100 mb-2">{reportTitle}</h2>
                <div className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-emerald-500 mb-4">
                  {score} / {questions.length}
                </div>
                <p className="text-slate-400 text-sm">Review your answers and explanations below.</p>
                <div className="flex gap-4 justify-center mt-6">
-                 <button onClick={onBack} className="px-6 py-2 border border-slate-600 rounded-full hover:bg-slate-800 text-sm">Return to Menu</button>
-                 <button onClick={() => setStep(1)} className="px-6 py-2 bg-indigo-600 rounded-full font-bold hover:bg-indigo-500 text-sm">Practice Again</button>
+                 <button onClick={onBack} className="px-6 py-2 border border-slate-600 rounded-full hover:bg-slate-800 text-sm">{deck ? 'Back to Decks' : 'Return to Menu'}</button>
+                 {deck ? (
+                   <button onClick={() => beginQuiz(deck.entries.map(e => e.question))} className="px-6 py-2 bg-indigo-600 rounded-full font-bold hover:bg-indigo-500 text-sm">Play Deck Again</button>
+                 ) : !reviewMode && (
+                   <button onClick={() => setStep(1)} className="px-6 py-2 bg-indigo-600 rounded-full font-bold hover:bg-indigo-500 text-sm">Practice Again</button>
+                 )}
+               </div>
+               <div className="flex flex-wrap gap-4 justify-center mt-4 text-xs">
+                 <button onClick={() => printAttemptReport(reportAttempt(), reportTitle)} className="text-slate-400 hover:text-white underline">Print / Save PDF</button>
+                 <button onClick={() => downloadAttemptReport(reportAttempt(), reportTitle)} className="text-slate-400 hover:text-white underline">Report (HTML)</button>
+                 <button onClick={() => downloadAttemptCsv(reportAttempt())} className="text-slate-400 hover:text-white underline">Results (CSV)</button>
+                 <button onClick={() => exportQuestions('json')} className="text-slate-400 hover:text-white underline">Export Pack (JSON)</button>
+                 <button onClick={() => exportQuestions('csv')} className="text-slate-400 hover:text-white underline">Export Pack (CSV)</button>
                </div>
             </div>
 
+            {/* Ability estimate (adaptive sessions) */}
+            {ability && (
+              <div className="glass-panel p-6 rounded-2xl space-y-4">
+                <h3 className="text-sm uppercase tracking-wider text-slate-500 font-bold">Ability Estimate</h3>
+                <div className="flex items-baseline gap-3">
+                  <span className="text-3xl font-black font-mono text-indigo-300">
+                    {ability.theta >= 0 ? '+' : ''}{ability.theta.toFixed(2)}
+                  </span>
+                  {ability.standardError !== null && (
+                    <span className="text-sm font-mono text-slate-500">± {ability.standardError.toFixed(2)}</span>
+                  )}
+                  <span className="ml-auto text-sm text-slate-300">
+                    Your level: {DIFFICULTY_LEVELS.find(l => l.id === difficultyForAbility(ability.theta))?.label}
+                  </span>
+                </div>
+                {ability.history.length > 1 && (
+                  <svg viewBox={`0 0 ${ability.history.length - 1} 40`} preserveAspectRatio="none" className="w-full h-16">
+                    <polyline
+                      fill="none"
+                      stroke="#818cf8"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                      points={ability.history
+                        .map((theta, i) => `${i},${40 - ((theta - abilityLow) / (abilityHigh - abilityLow)) * 40}`)
+                        .join(' ')}
+                    />
+                  </svg>
+                )}
+                <div className="grid grid-cols-3 gap-3 text-center text-xs">
+                  {DIFFICULTY_LEVELS.map(level => (
+                    <div key={level.id} className="bg-slate-800/50 rounded-lg p-2">
+                      <div className="text-slate-500">{level.label}</div>
+                      <div className="font-mono text-slate-200">{Math.round(expectedScore(ability.theta, level.id) * 100)}%</div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">
+                  Expected accuracy at each level. The estimate is on a logit scale where 0 is an even chance on a Medium question.
+                </p>
+              </div>
+            )}
+
+            {/* Chapter Breakdown */}
+            {chapterBreakdown.length > 1 && (
+              <div className="glass-panel p-6 rounded-2xl space-y-3">
+                <h3 className="text-sm uppercase tracking-wider text-slate-500 font-bold">By Chapter</h3>
+                {chapterBreakdown.map(result => (
+                  <div key={result.chapterId} className="flex items-center gap-4 text-sm">
+                    <span className="flex-1 text-slate-300">{findChapter(result.chapterId)?.chapter.name ?? result.chapterId}</span>
+                    <div className="w-24 h-2 bg-slate-800 rounded-full overflow-hidden">
+                      <div className="h-full bg-emerald-500" style={{ width: `${(result.correct / result.total) * 100}%` }}></div>
+                    </div>
+                    <span className="w-12 text-right font-mono text-slate-200">{result.correct}/{result.total}</span>
+                    <span className="w-14 text-right font-mono text-slate-500">{Math.round(result.seconds / result.total)}s/q</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Detailed Breakdown */}
             <div className="space-y-6">
               {questions.map((q, idx) => {
-                const isCorrect = q.correctIndex === answers[idx];
-                const skipped = answers[idx] === -1;
+                const isCorrect = isAnswerCorrect(q, answers[idx]);
+                const skipped = answers[idx] === null;
                 return (
                   <div key={q.id} className={`glass-panel p-6 rounded-xl border-l-4 ${isCorrect ? 'border-green-500' : skipped ? 'border-yellow-500' : 'border-red-500'}`}>
                     <div className="flex justify-between items-start mb-4">
-                      <span className="text-xs font-mono text-slate-500">Q{idx + 1} • {timeTaken[idx]}s</span>
-                      <span className={`text-xs font-bold px-2 py-1 rounded ${isCorrect ? 'bg-green-900 text-green-200' : skipped ? 'bg-yellow-900 text-yellow-200' : 'bg-red-900 text-red-200'}`}>
-                        {isCorrect ? 'CORRECT' : skipped ? 'SKIPPED' : 'INCORRECT'}
+                      <span className="text-xs font-mono text-slate-500">
+                        Q{idx + 1}{q.chapterId && ` • ${findChapter(q.chapterId)?.chapter.name ?? q.chapterId}`}
+                        {q.difficulty && ` • ${DIFFICULTY_LEVELS.find(l => l.id === q.difficulty)?.label}`} • {timeTaken[idx]}s
                       </span>
+                      <div className="flex items-center gap-3">
+                        <BookmarkButton question={q} subject={subjectOf(idx)} />
+                        <ReportQuestionButton question={q} subject={subjectOf(idx)} />
+                        <span className={`text-xs font-bold px-2 py-1 rounded ${isCorrect ? 'bg-green-900 text-green-200' : skipped ? 'bg-yellow-900 text-yellow-200' : 'bg-red-900 text-red-200'}`}>
+                          {isCorrect ? 'CORRECT' : skipped ? 'SKIPPED' : 'INCORRECT'}
+                        </span>
+                      </div>
                     </div>
                     
                     <h3 className="text-lg font-semibold mb-4 text-slate-100"><MathRenderer text={q.text} /></h3>
+                    <div className="mb-4 text-slate-300"><QuestionDetails question={q} /></div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
-                      {q.options.map((opt, optIdx) => {
-                        const isSelected = answers[idx] === optIdx;
-                        const isRightAnswer = q.correctIndex === optIdx;
-                        let optionClass = "p-3 rounded-lg text-sm border ";
+                    {isChoiceQuestion(q) ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                        {q.options.map((opt, optIdx) => {
+                          const isSelected = answers[idx] === optIdx;
+                          const isRightAnswer = q.correctIndex === optIdx;
+                          let optionClass = "p-3 rounded-lg text-sm border ";
                         
-                        if (isRightAnswer) optionClass += "border-green-500 bg-green-900/20 text-green-100";
-                        else if (isSelected) optionClass += "border-red-500 bg-red-900/20 text-red-100";
-                        else optionClass += "border-slate-700 bg-slate-800/50 text-slate-400";
-
-                        return (
-                          <div key={optIdx} className={optionClass}>
-                            <div className="flex gap-2">
-                              <span className="font-bold">{String.fromCharCode(65 + optIdx)}.</span>
-                              <MathRenderer text={opt} />
+                          if (isRightAnswer) optionClass += "border-green-500 bg-green-900/20 text-green-100";
+                          else if (isSelected) optionClass += "border-red-500 bg-red-900/20 text-red-100";
+                          else optionClass += "border-slate-700 bg-slate-800/50 text-slate-400";
+
+                          return (
+                            <div key={optIdx} className={optionClass}>
+                              <div className="flex gap-2">
+                                <span className="font-bold">{String.fromCharCode(65 + optIdx)}.</span>
+                                <MathRenderer text={opt} />
+                              </div>
+                              <OptionFigure question={q} index={optIdx} />
                             </div>
-                          </div>
-                        )
-                      })}
-                    </div>
+                          )
+                        })}
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-3 mb-4 text-sm font-mono">
+                        <span className={`p-3 rounded-lg border ${isCorrect ? 'border-green-500 bg-green-900/20 text-green-100' : 'border-red-500 bg-red-900/20 text-red-100'}`}>
+                          Your answer: {formatAnswer(q, answers[idx])}
+                        </span>
+                        <span className="p-3 rounded-lg border border-green-500 bg-green-900/20 text-green-100">
+                          Correct answer: {formatCorrectAnswer(q)}
+                        </span>
+                      </div>
+                    )}
 
                     <div className="bg-slate-800/50 p-4 rounded-lg">
                       <h4 className="text-xs uppercase tracking-wider text-indigo-400 font-bold mb-2">NCERT Explanation</h4>
                       <p className="text-sm text-slate-300 leading-relaxed"><MathRenderer text={q.explanation} /></p>
                     </div>
+
+                    <TutorChat
+                      question={q}
+                      answer={answers[idx]}
+                      messages={tutorChats[q.id] ?? []}
+                      onChange={(messages) => updateTutorChat(q.id, messages)}
+                    />
                   </div>
                 );
               })}
@@ -355,13 +965,31 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
   }
 
   // Step 4: Quiz (Carousel View) with Error Handling
+  if (questions.length === 0 && reviewMode) {
+    return (
+      <div className="h-screen w-full bg-slate-900 text-white flex flex-col items-center justify-center p-6">
+        <div className="glass-panel p-8 rounded-xl text-center max-w-md">
+          <h3 className="text-xl font-bold mb-2">All caught up!</h3>
+          <p className="text-slate-400 mb-6">No questions are due for review. Missed and skipped practice questions will show up here.</p>
+          <button onClick={onBack} className="px-6 py-3 bg-indigo-600 rounded-lg font-bold">Back to Menu</button>
+        </div>
+      </div>
+    );
+  }
+
   if (questions.length === 0) {
+    const failure = generationError ?? describeGenerationError(null);
     return (
       <div className="h-screen w-full bg-slate-900 text-white flex flex-col items-center justify-center p-6">
         <div className="glass-panel p-8 rounded-xl text-center max-w-md">
-          <h3 className="text-xl font-bold mb-2">Oops!</h3>
-          <p className="text-slate-400 mb-6">We couldn't generate valid questions. Try adjusting your parameters.</p>
-          <button onClick={() => setStep(3)} className="px-6 py-3 bg-indigo-600 rounded-lg font-bold">Try Again</button>
+          <h3 className="text-xl font-bold mb-2">{failure.title}</h3>
+          <p className="text-slate-400 mb-6">{failure.message}</p>
+          <div className="flex gap-4 justify-center">
+            <button onClick={() => setStep(3)} className="px-6 py-3 border border-slate-600 rounded-lg hover:bg-slate-800">Change Settings</button>
+            {failure.canRetry && (
+              <button onClick={startPractice} className="px-6 py-3 bg-indigo-600 rounded-lg font-bold">Retry</button>
+            )}
+          </div>
         </div>
       </div>
     );
@@ -369,21 +997,74 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
 
   const currentQ = questions[currentQIndex];
   const currentAns = answers[currentQIndex];
+  const paletteStatuses = questions.map((_, i) =>
+    getPaletteStatus(answers[i] !== null, visited[i] || i === currentQIndex, markedForReview[i])
+  );
+  const statusCounts = countStatuses(paletteStatuses);
 
   return (
     <div className="h-screen w-full bg-slate-950 text-white flex flex-col relative overflow-hidden">
       {/* Top Bar */}
       <div className="px-6 py-4 flex justify-between items-center z-10 bg-slate-900/80 backdrop-blur-md sticky top-0">
-        <button onClick={() => { if(confirm("Quit exam? Progress will be lost.")) onBack(); }} className="text-slate-400 hover:text-white text-sm">Quit</button>
+        <button onClick={() => { if(confirm(keepsSession ? "Quit exam? You can resume it from the menu." : "Quit exam? Progress will be lost.")) quit(); }} className="text-slate-400 hover:text-white text-sm">Quit</button>
         <div className="flex flex-col items-center">
            <span className="text-xs text-slate-500 uppercase tracking-widest">Time</span>
            <span className="font-mono text-indigo-300 font-bold">{Math.floor(currentTimerDisplay / 60)}:{(currentTimerDisplay % 60).toString().padStart(2, '0')}</span>
         </div>
-        <div className="font-mono font-bold text-slate-300">
+        <button
+          onClick={() => setShowPalette(true)}
+          className="font-mono font-bold text-slate-300 hover:text-white flex items-center gap-2"
+        >
           {currentQIndex + 1} <span className="text-slate-600">/</span> {questions.length}
-        </div>
+          <svg className="w-5 h-5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v4H4zM10 6h4v4h-4zM16 6h4v4h-4zM4 14h4v4H4zM10 14h4v4h-4zM16 14h4v4h-4z" /></svg>
+        </button>
       </div>
 
+      {streaming && (
+        <div className="bg-indigo-900/40 text-indigo-200 text-center text-xs py-1 animate-pulse">
+          {questions.length} of {expectedCount} questions ready
+        </div>
+      )}
+
+      {/* Question Palette Drawer */}
+      {showPalette && (
+        <div className="absolute inset-0 z-30 flex justify-end bg-black/50" onClick={() => setShowPalette(false)}>
+          <div
+            className="w-full max-w-xs h-full bg-slate-900 border-l border-slate-700 p-6 overflow-y-auto slide-in-right"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="font-bold text-indigo-300">Question Palette</h3>
+              <button onClick={() => setShowPalette(false)} className="text-slate-400 hover:text-white text-sm">Close</button>
+            </div>
+            <QuestionPalette statuses={paletteStatuses} currentIndex={currentQIndex} onJump={goToQuestion} />
+            <button
+              onClick={() => { setShowPalette(false); requestSubmit(); }}
+              className="w-full mt-6 py-3 bg-green-600 hover:bg-green-500 rounded-lg font-bold"
+            >
+              Submit Exam
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Submit Summary */}
+      {showSubmitSummary && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 p-6">
+          <div className="glass-panel p-6 rounded-2xl w-full max-w-md space-y-6 animate-pop">
+            <h3 className="text-xl font-bold">Submit Exam?</h3>
+            <PaletteLegend counts={statusCounts} />
+            {statusCounts.MARKED + statusCounts.ANSWERED_MARKED > 0 && (
+              <p className="text-xs text-slate-400">Answers marked for review will still be evaluated.</p>
+            )}
+            <div className="flex gap-4">
+              <button onClick={() => setShowSubmitSummary(false)} className="flex-1 py-3 border border-slate-600 rounded-lg hover:bg-slate-800">Keep Going</button>
+              <button onClick={confirmSubmit} className="flex-1 py-3 bg-green-600 rounded-lg font-bold hover:bg-green-500">Submit</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Main Content / Carousel Area */}
       <div 
         className="flex-1 flex flex-col items-center justify-start pt-8 p-6 w-full max-w-2xl mx-auto touch-pan-y"
@@ -397,42 +1078,51 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
         >
           {/* Question Text */}
           <div className="mb-8 min-h-[60px]">
-            <h2 className="text-xl md:text-2xl font-bold leading-relaxed text-slate-100">
-              <MathRenderer text={currentQ.text} />
-            </h2>
+            <div className="flex items-start gap-3">
+              <h2 className="flex-1 text-xl md:text-2xl font-bold leading-relaxed text-slate-100">
+                <MathRenderer text={currentQ.text} />
+              </h2>
+              <BookmarkButton question={currentQ} subject={subjectOf(currentQIndex)} />
+            </div>
+            <div className="text-slate-200"><QuestionDetails question={currentQ} /></div>
           </div>
 
-          {/* Options */}
-          <div className="grid gap-4">
-            {currentQ.options.map((opt, optIdx) => {
-              const isSelected = currentAns === optIdx;
+          {/* Options, or an answer box for numeric questions */}
+          {!isChoiceQuestion(currentQ) ? (
+            <NumericAnswerInput key={currentQ.id} value={currentAns} unit={currentQ.unit} onChange={handleNumericAnswer} />
+          ) : (
+            <div className="grid gap-4">
+              {currentQ.options.map((opt, optIdx) => {
+                const isSelected = currentAns === optIdx;
               
-              let btnClass = "w-full text-left p-4 rounded-xl border-2 transition-all duration-200 flex items-center gap-4 group ";
+                let btnClass = "w-full text-left p-4 rounded-xl border-2 transition-all duration-200 flex items-center gap-4 group ";
               
-              if (isSelected) {
-                btnClass += "bg-indigo-600/20 border-indigo-500 text-indigo-100 shadow-[0_0_15px_rgba(99,102,241,0.3)]";
-              } else {
-                btnClass += "bg-slate-800/40 border-slate-700 hover:bg-slate-700 hover:border-slate-500 text-slate-300";
-              }
+                if (isSelected) {
+                  btnClass += "bg-indigo-600/20 border-indigo-500 text-indigo-100 shadow-[0_0_15px_rgba(99,102,241,0.3)]";
+                } else {
+                  btnClass += "bg-slate-800/40 border-slate-700 hover:bg-slate-700 hover:border-slate-500 text-slate-300";
+                }
 
-              return (
-                <button
-                  key={optIdx}
-                  onClick={() => handleSelectAnswer(optIdx)}
-                  className={btnClass}
-                >
-                  <span className={`flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold border ${
-                    isSelected ? 'border-indigo-400 bg-indigo-500 text-white' : 'border-slate-600 text-slate-500 group-hover:border-slate-400'
-                  }`}>
-                    {String.fromCharCode(65 + optIdx)}
-                  </span>
-                  <span className="text-base font-medium">
-                    <MathRenderer text={opt} />
-                  </span>
-                </button>
-              );
-            })}
-          </div>
+                return (
+                  <button
+                    key={optIdx}
+                    onClick={() => handleSelectAnswer(optIdx)}
+                    className={btnClass}
+                  >
+                    <span className={`flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold border ${
+                      isSelected ? 'border-indigo-400 bg-indigo-500 text-white' : 'border-slate-600 text-slate-500 group-hover:border-slate-400'
+                    }`}>
+                      {String.fromCharCode(65 + optIdx)}
+                    </span>
+                    <span className="text-base font-medium">
+                      <MathRenderer text={opt} />
+                      <OptionFigure question={currentQ} index={optIdx} />
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
         
         {/* Navigation Controls */}
@@ -446,9 +1136,27 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
              Previous
            </button>
 
-           {currentQIndex === questions.length - 1 ? (
+           <button
+             onClick={toggleMarkForReview}
+             className={`px-4 py-3 rounded-lg border text-sm transition-colors ${
+               markedForReview[currentQIndex]
+                 ? 'border-purple-400 bg-purple-600/30 text-purple-100'
+                 : 'border-slate-700 text-slate-400 hover:text-white'
+             }`}
+           >
+             {markedForReview[currentQIndex] ? 'Marked' : 'Mark for Review'}
+           </button>
+
+           {currentQIndex === questions.length - 1 && moreComing ? (
+              <button
+                disabled
+                className="px-8 py-3 bg-slate-700 text-slate-300 font-bold rounded-lg flex items-center gap-2 animate-pulse"
+              >
+                Loading next...
+              </button>
+           ) : currentQIndex === questions.length - 1 ? (
               <button 
-                onClick={() => { recordTime(); setStep(5); }} 
+                onClick={requestSubmit} 
                 className="px-8 py-3 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg shadow-lg hover:shadow-green-500/20 transition-all flex items-center gap-2"
               >
                 Submit Exam
@@ -459,7 +1167,7 @@ const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
                onClick={goToNext} 
                className="px-8 py-3 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-lg shadow-lg hover:shadow-indigo-500/20 transition-all flex items-center gap-2"
              >
-               {currentAns !== -1 ? 'Next Question' : 'Skip'}
+               {currentAns !== null ? 'Next Question' : 'Skip'}
                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
              </button>
            )}
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Question, UnrevealedQuestion } from '../types';
+import { matchLeftLabel, matchRightLabel } from '../services/questionFormat';
+import MathRenderer from './MathRenderer';
+import FigureView from './FigureView';
+
+interface QuestionDetailsProps {
+  question: Question | UnrevealedQuestion;
+  compact?: boolean; // Smaller type for the split-screen battle panels
+}
+
+// Assertion/reason, the two match columns or the numbered statements.
+// Plain MCQs and numeric questions have nothing extra to show.
+const FormatDetails: React.FC<{ question: Question | UnrevealedQuestion; textSize: string }> = ({ question, textSize }) => {
+  switch (question.format) {
+    case 'ASSERTION_REASON':
+      return (
+        <div className={`mt-4 space-y-2 text-left ${textSize}`}>
+          <p><span className="font-bold text-indigo-300">Assertion (A): </span><MathRenderer text={question.assertion} /></p>
+          <p><span className="font-bold text-indigo-300">Reason (R): </span><MathRenderer text={question.reason} /></p>
+        </div>
+      );
+
+    case 'MATCH':
+      return (
+        <table className={`mt-4 w-full text-left border-collapse ${textSize}`}>
+          <thead>
+            <tr className="text-xs uppercase tracking-wider text-slate-400">
+              <th className="py-1 pr-4 font-semibold">List I</th>
+              <th className="py-1 font-semibold">List II</th>
+            </tr>
+          </thead>
+          <tbody>
+            {question.columnA.map((left, i) => (
+              <tr key={i} className="border-t border-slate-700 align-top">
+                <td className="py-2 pr-4">
+                  <span className="font-bold text-indigo-300 mr-2">{matchLeftLabel(i)}.</span>
+                  <MathRenderer text={left} />
+                </td>
+                <td className="py-2">
+                  <span className="font-bold text-indigo-300 mr-2">{matchRightLabel(i)}.</span>
+                  <MathRenderer text={question.columnB[i] ?? ''} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+
+    case 'STATEMENTS':
+      return (
+        <ol className={`mt-4 space-y-1 text-left list-none ${textSize}`}>
+          {question.statements.map((statement, i) => (
+            <li key={i}>
+              <span className="font-bold text-indigo-300 mr-2">{matchLeftLabel(i)}.</span>
+              <MathRenderer text={statement} />
+            </li>
+          ))}
+        </ol>
+      );
+
+    default:
+      return null;
+  }
+};
+
+// The part of a question that sits between the stem and the options: its
+// figure, if any, then whatever the format adds.
+const QuestionDetails: React.FC<QuestionDetailsProps> = ({ question, compact = false }) => (
+  <>
+    {question.figure && (
+      <div className="mt-4">
+        <FigureView figure={question.figure} compact={compact} />
+      </div>
+    )}
+    <FormatDetails question={question} textSize={compact ? 'text-sm' : 'text-base'} />
+  </>
+);
+
+export default QuestionDetails;
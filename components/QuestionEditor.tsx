@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { CuratedQuestion, Question, ReportReason, Subject } from '../types';
+import { REPORT_REASONS } from '../constants';
+import { curateQuestion } from '../services/questionCuration';
+import { isChoiceQuestion, optionLabel } from '../services/questionFormat';
+import { isWellFormed } from '../services/questionQuality';
+
+interface QuestionEditorProps {
+  question: Question;
+  subject: Subject;
+  saved: CuratedQuestion | null; // What was recorded earlier this session
+  onClose: () => void;
+  onSaved: (entry: CuratedQuestion) => void;
+}
+
+const fieldClass = "w-full bg-slate-800 border border-slate-600 rounded-lg p-2 text-sm focus:outline-none focus:border-indigo-500";
+
+// Report dialog with an editor for the stem, options, key and explanation.
+// "Report" only records what is wrong; "Save Correction" also puts the edited
+// question into the vetted bank.
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, subject, saved, onClose, onSaved }) => {
+  const start = saved?.question ?? question;
+  const [reasons, setReasons] = useState<ReportReason[]>(saved?.reasons ?? []);
+  const [note, setNote] = useState(saved?.note ?? '');
+  const [text, setText] = useState(start.text);
+  const [options, setOptions] = useState<string[]>(isChoiceQuestion(start) ? start.options : []);
+  const [correctIndex, setCorrectIndex] = useState(isChoiceQuestion(start) ? start.correctIndex : 0);
+  const [answer, setAnswer] = useState(isChoiceQuestion(start) ? '' : String(start.answer));
+  const [explanation, setExplanation] = useState(start.explanation ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const edited: Question = isChoiceQuestion(start)
+    ? { ...start, text, options, correctIndex, explanation }
+    : { ...start, text, answer: answer.trim() === '' ? NaN : Number(answer), explanation };
+  const changed = JSON.stringify(edited) !== JSON.stringify(start);
+  const valid = !!text.trim() && isWellFormed(edited);
+
+  const toggleReason = (reason: ReportReason) =>
+    setReasons(prev => (prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]));
+
+  const save = async (withCorrection: boolean) => {
+    setSaving(true);
+    const entry = await curateQuestion(subject, question, reasons, note, withCorrection ? edited : null);
+    setSaving(false);
+    onSaved(entry);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900 p-6 rounded-2xl w-full max-w-xl max-h-full overflow-y-auto space-y-5 text-left animate-pop"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold">Report / Edit Question</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">Close</button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">What's wrong?</label>
+          <div className="flex flex-wrap gap-2">
+            {REPORT_REASONS.map(reason => (
+              <button
+                key={reason.id}
+                onClick={() => toggleReason(reason.id)}
+                className={`px-3 py-1 rounded-full text-xs border ${
+                  reasons.includes(reason.id)
+                    ? 'bg-red-600/40 border-red-400 text-red-50'
+                    : 'border-slate-600 text-slate-300 hover:border-slate-400'
+                }`}
+              >
+                {reason.label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            placeholder="Details (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className={`${fieldClass} mt-3 h-16 resize-none`}
+          />
+        </div>
+
+        <div className="space-y-3 border-t border-slate-700 pt-5">
+          <label className="block text-sm font-medium">Question</label>
+          <textarea value={text} onChange={(e) => setText(e.target.value)} className={`${fieldClass} h-20 resize-none`} />
+
+          {isChoiceQuestion(start) ? (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">Options (select the correct one)</label>
+              {options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="correct-option"
+                    checked={correctIndex === i}
+                    onChange={() => setCorrectIndex(i)}
+                    className="accent-green-500"
+                  />
+                  <span className="font-bold text-sm w-4">{optionLabel(i)}</span>
+                  <input
+                    value={option}
+                    onChange={(e) => setOptions(options.map((o, j) => (j === i ? e.target.value : o)))}
+                    className={fieldClass}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium mb-2">Correct answer{start.unit ? ` (${start.unit})` : ''}</label>
+              <input type="number" step="any" value={answer} onChange={(e) => setAnswer(e.target.value)} className={fieldClass} />
+            </div>
+          )}
+
+          <label className="block text-sm font-medium">Explanation</label>
+          <textarea value={explanation} onChange={(e) => setExplanation(e.target.value)} className={`${fieldClass} h-24 resize-none`} />
+          {changed && !valid && (
+            <p className="text-xs text-yellow-300">
+              {isChoiceQuestion(start) ? 'Needs a question and four different, non-empty options.' : 'Needs a question and a numeric answer.'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-4">
+          <button
+            onClick={() => save(false)}
+            disabled={saving || reasons.length === 0}
+            className="flex-1 py-3 border border-slate-600 rounded-lg hover:bg-slate-800 disabled:opacity-40"
+          >
+            Report
+          </button>
+          <button
+            onClick={() => save(true)}
+            disabled={saving || !changed || !valid}
+            className="flex-1 py-3 bg-indigo-600 rounded-lg font-bold hover:bg-indigo-500 disabled:opacity-40"
+          >
+            Save Correction
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ReportQuestionButtonProps {
+  question: Question;
+  subject: Subject;
+}
+
+// "Report / Edit" link for review screens; shows what was recorded once saved
+export const ReportQuestionButton: React.FC<ReportQuestionButtonProps> = ({ question, subject }) => {
+  const [open, setOpen] = useState(false);
+  const [saved, setSaved] = useState<CuratedQuestion | null>(null);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`text-xs underline ${saved ? 'text-indigo-300' : 'text-slate-500 hover:text-white'}`}
+      >
+        {saved ? (saved.corrected ? 'Corrected' : 'Reported') : 'Report / Edit'}
+      </button>
+      {open && (
+        <QuestionEditor
+          question={question}
+          subject={subject}
+          saved={saved}
+          onClose={() => setOpen(false)}
+          onSaved={(entry) => { setSaved(entry); setOpen(false); }}
+        />
+      )}
+    </>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { PaletteStatus } from '../types';
+
+interface QuestionPaletteProps {
+  statuses: PaletteStatus[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+}
+
+export const getPaletteStatus = (answered: boolean, visited: boolean, marked: boolean): PaletteStatus => {
+  if (marked) return answered ? 'ANSWERED_MARKED' : 'MARKED';
+  if (answered) return 'ANSWERED';
+  return visited ? 'NOT_ANSWERED' : 'NOT_VISITED';
+};
+
+export const countStatuses = (statuses: PaletteStatus[]): Record<PaletteStatus, number> =>
+  statuses.reduce(
+    (acc, s) => ({ ...acc, [s]: acc[s] + 1 }),
+    { NOT_VISITED: 0, NOT_ANSWERED: 0, ANSWERED: 0, MARKED: 0, ANSWERED_MARKED: 0 }
+  );
+
+// Same colour coding as the NTA computer-based test
+export const PALETTE_LEGEND: { status: PaletteStatus; label: string; className: string }[] = [
+  { status: 'NOT_VISITED', label: 'Not Visited', className: 'bg-slate-700 text-slate-300 border-slate-600' },
+  { status: 'NOT_ANSWERED', label: 'Not Answered', className: 'bg-red-600 text-white border-red-400' },
+  { status: 'ANSWERED', label: 'Answered', className: 'bg-green-600 text-white border-green-400' },
+  { status: 'MARKED', label: 'Marked for Review', className: 'bg-purple-600 text-white border-purple-400 rounded-full' },
+  { status: 'ANSWERED_MARKED', label: 'Answered & Marked', className: 'bg-purple-600 text-white border-green-400 rounded-full ring-2 ring-green-400' },
+];
+
+const styleFor = (status: PaletteStatus) =>
+  PALETTE_LEGEND.find(l => l.status === status)?.className ?? '';
+
+export const PaletteLegend: React.FC<{ counts: Record<PaletteStatus, number> }> = ({ counts }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+    {PALETTE_LEGEND.map(({ status, label }) => (
+      <div key={status} className="flex items-center gap-2">
+        <span className={`w-7 h-7 flex items-center justify-center border font-bold ${styleFor(status)} ${status.includes('MARKED') ? '' : 'rounded-md'}`}>
+          {counts[status]}
+        </span>
+        <span className="text-slate-300">{label}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const QuestionPalette: React.FC<QuestionPaletteProps> = ({ statuses, currentIndex, onJump }) => (
+  <div className="space-y-4">
+    <PaletteLegend counts={countStatuses(statuses)} />
+    <div className="grid grid-cols-5 gap-2">
+      {statuses.map((status, idx) => (
+        <button
+          key={idx}
+          onClick={() => onJump(idx)}
+          className={`h-10 flex items-center justify-center border font-mono text-sm font-bold transition-transform hover:scale-105 ${styleFor(status)} ${
+            status.includes('MARKED') ? '' : 'rounded-md'
+          } ${idx === currentIndex ? 'outline outline-2 outline-offset-2 outline-indigo-400' : ''}`}
+        >
+          {idx + 1}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default QuestionPalette;
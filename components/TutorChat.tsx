@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Answer, Question, TutorMessage } from '../types';
+import { getQuestionProvider } from '../services/questionProvider';
+import { CancelledError, describeGenerationError } from '../services/generationErrors';
+import MathRenderer from './MathRenderer';
+
+interface TutorChatProps {
+  question: Question;
+  answer: Answer; // The student's answer, null if skipped
+  messages: TutorMessage[];
+  onChange: (messages: TutorMessage[]) => void;
+}
+
+// "Ask the tutor" panel under a reviewed question. The provider is given the
+// question, options, the student's answer and the explanation as context, so
+// the chat itself only holds what the student and tutor said.
+const TutorChat: React.FC<TutorChatProps> = ({ question, answer, messages, onChange }) => {
+  const [open, setOpen] = useState(messages.length > 0);
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || pending) return;
+    const asked = [...messages, { role: 'student' as const, text, sentAt: Date.now() }];
+    const request = new AbortController();
+    requestRef.current = request;
+    setDraft('');
+    setError(null);
+    setPending(true);
+    onChange(asked);
+
+    try {
+      const reply = await getQuestionProvider().askTutor(question, answer, asked, { signal: request.signal });
+      onChange([...asked, { role: 'tutor', text: reply, sentAt: Date.now() }]);
+    } catch (err) {
+      if (err instanceof CancelledError) return;
+      // Take the unanswered message back so it can be sent again
+      onChange(messages);
+      setDraft(text);
+      setError(describeGenerationError(err).message);
+    } finally {
+      if (requestRef.current === request) {
+        requestRef.current = null;
+        setPending(false);
+      }
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="mt-3 text-sm text-indigo-300 hover:text-white underline">
+        Ask the Tutor
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 border border-slate-700 rounded-lg p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs uppercase tracking-wider text-indigo-400 font-bold">Ask the Tutor</h4>
+        <button onClick={() => setOpen(false)} className="text-xs text-slate-500 hover:text-white">Hide</button>
+      </div>
+
+      {messages.length === 0 && (
+        <p className="text-xs text-slate-500">The tutor can see this question, the options, your answer and the explanation.</p>
+      )}
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {messages.map((message, i) => (
+          <div key={i} className={`flex ${message.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+                message.role === 'student' ? 'bg-indigo-600/40 text-indigo-50' : 'bg-slate-800 text-slate-200'
+              }`}
+            >
+              {message.role === 'tutor' ? <MathRenderer text={message.text} /> : message.text}
+            </div>
+          </div>
+        ))}
+        {pending && <div className="text-xs text-slate-500 animate-pulse">Tutor is typing...</div>}
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') send(); }}
+          placeholder="e.g. Why is option B wrong?"
+          disabled={pending}
+          className="flex-1 bg-slate-800 border border-slate-600 rounded-lg p-2 text-sm focus:outline-none focus:border-indigo-500"
+        />
+        <button
+          onClick={send}
+          disabled={pending || !draft.trim()}
+          className="px-4 py-2 bg-indigo-600 rounded-lg text-sm font-bold hover:bg-indigo-500 disabled:opacity-40"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TutorChat;
@@ -1,90 +1,294 @@
-import { Subject, Chapter } from './types';
+import { Subject, BankQuestion, MockTestPattern, ScoringRule, BotTier, BotProfile, Difficulty, ReportReason } from './types';
 
-export const NEET_SYLLABUS: Chapter[] = [
+// Battle Arena scoring
+export const SCORING_RULES: { id: ScoringRule; label: string; description: string }[] = [
+  { id: 'OPPONENT_GETS_POINT', label: 'Classic', description: 'Wrong answer gives your opponent the point' },
+  { id: 'PENALTY_ONLY', label: 'Penalty', description: 'Wrong answer costs you a point' },
+  { id: 'NO_PENALTY', label: 'Friendly', description: 'Wrong answers are not punished' },
+];
+export const ROUND_TIME_LIMITS = [10, 15, 20, 30];
+export const SPEED_BONUS_SECONDS = 5;
+
+export const BOT_PROFILES: Record<BotTier, BotProfile> = {
+  EASY: { accuracy: 0.5, meanResponseMs: 9000, responseJitterMs: 3000 },
+  MEDIUM: { accuracy: 0.7, meanResponseMs: 6000, responseJitterMs: 2000 },
+  HARD: { accuracy: 0.9, meanResponseMs: 3500, responseJitterMs: 1200 },
+};
+
+// Practice difficulty, easiest first
+export const DIFFICULTY_LEVELS: { id: Difficulty; label: string; description: string }[] = [
+  { id: 'EASY', label: 'Easy', description: 'Direct NCERT recall and single-step problems' },
+  { id: 'MEDIUM', label: 'Medium', description: 'Typical NEET questions' },
+  { id: 'HARD', label: 'Hard', description: 'Multi-concept reasoning and close distractors' },
+];
+// Questions generated per step of an adaptive session
+export const ADAPTIVE_BATCH_SIZE = 5;
+
+// Why a question was reported
+export const REPORT_REASONS: { id: ReportReason; label: string }[] = [
+  { id: 'WRONG_ANSWER', label: 'Wrong answer key' },
+  { id: 'AMBIGUOUS', label: 'Ambiguous or unclear' },
+  { id: 'OUT_OF_SYLLABUS', label: 'Out of syllabus' },
+  { id: 'OTHER', label: 'Something else' },
+];
+
+// Unfinished practice sessions older than this are dropped; PRACTICE_SESSION_MAX_AGE_HOURS overrides it
+export const DEFAULT_SESSION_MAX_AGE_HOURS = 24;
+// How often a quiz in progress is snapshotted while the student sits on a question
+export const SESSION_SNAPSHOT_INTERVAL_MS = 5000;
+
+// Fixed answer options used by every NEET assertion-reason question
+export const ASSERTION_REASON_OPTIONS = [
+  'Both A and R are true and R is the correct explanation of A',
+  'Both A and R are true but R is not the correct explanation of A',
+  'A is true but R is false',
+  'A is false but R is true',
+];
+
+// Full-length NEET mock: 4 sections of 45, 200 minutes, +4 / -1 marking
+export const NEET_MOCK_PATTERN: MockTestPattern = {
+  durationMinutes: 200,
+  marksCorrect: 4,
+  marksIncorrect: -1,
+  sections: [
+    { subject: Subject.PHYSICS, questionCount: 45 },
+    { subject: Subject.CHEMISTRY, questionCount: 45 },
+    { subject: Subject.BOTANY, questionCount: 45 },
+    { subject: Subject.ZOOLOGY, questionCount: 45 },
+  ],
+};
+
+// Small built-in bank used by the offline question provider.
+export const LOCAL_QUESTION_BANK: BankQuestion[] = [
   // Physics
-  { id: 'phy_1', name: 'Units and Measurements', subject: Subject.PHYSICS },
-  { id: 'phy_2', name: 'Motion in a Straight Line', subject: Subject.PHYSICS },
-  { id: 'phy_3', name: 'Motion in a Plane', subject: Subject.PHYSICS },
-  { id: 'phy_4', name: 'Laws of Motion', subject: Subject.PHYSICS },
-  { id: 'phy_5', name: 'Work, Energy and Power', subject: Subject.PHYSICS },
-  { id: 'phy_6', name: 'System of Particles and Rotational Motion', subject: Subject.PHYSICS },
-  { id: 'phy_7', name: 'Gravitation', subject: Subject.PHYSICS },
-  { id: 'phy_8', name: 'Mechanical Properties of Solids', subject: Subject.PHYSICS },
-  { id: 'phy_9', name: 'Mechanical Properties of Fluids', subject: Subject.PHYSICS },
-  { id: 'phy_10', name: 'Thermal Properties of Matter', subject: Subject.PHYSICS },
-  { id: 'phy_11', name: 'Thermodynamics', subject: Subject.PHYSICS },
-  { id: 'phy_12', name: 'Kinetic Theory', subject: Subject.PHYSICS },
-  { id: 'phy_13', name: 'Oscillations', subject: Subject.PHYSICS },
-  { id: 'phy_14', name: 'Waves', subject: Subject.PHYSICS },
-  { id: 'phy_15', name: 'Electric Charges and Fields', subject: Subject.PHYSICS },
-  { id: 'phy_16', name: 'Electrostatic Potential and Capacitance', subject: Subject.PHYSICS },
-  { id: 'phy_17', name: 'Current Electricity', subject: Subject.PHYSICS },
-  { id: 'phy_18', name: 'Moving Charges and Magnetism', subject: Subject.PHYSICS },
-  { id: 'phy_19', name: 'Magnetism and Matter', subject: Subject.PHYSICS },
-  { id: 'phy_20', name: 'Electromagnetic Induction', subject: Subject.PHYSICS },
-  { id: 'phy_21', name: 'Alternating Current', subject: Subject.PHYSICS },
-  { id: 'phy_22', name: 'Electromagnetic Waves', subject: Subject.PHYSICS },
-  { id: 'phy_23', name: 'Ray Optics and Optical Instruments', subject: Subject.PHYSICS },
-  { id: 'phy_24', name: 'Wave Optics', subject: Subject.PHYSICS },
-  { id: 'phy_25', name: 'Dual Nature of Radiation and Matter', subject: Subject.PHYSICS },
-  { id: 'phy_26', name: 'Atoms', subject: Subject.PHYSICS },
-  { id: 'phy_27', name: 'Nuclei', subject: Subject.PHYSICS },
-  { id: 'phy_28', name: 'Semiconductor Electronics', subject: Subject.PHYSICS },
+  {
+    id: 'bank-phy-1',
+    subject: Subject.PHYSICS,
+    chapterId: 'phy_1',
+    difficulty: 'EASY',
+    text: 'The dimensional formula of force is:',
+    options: ['[M L T^-2]', '[M L^2 T^-2]', '[M L^-1 T^-2]', '[M L T^-1]'],
+    correctIndex: 0,
+    explanation: 'Force = mass × acceleration, so its dimensions are [M][L T^-2] = [M L T^-2].',
+  },
+  {
+    id: 'bank-phy-2',
+    subject: Subject.PHYSICS,
+    chapterId: 'phy_4',
+    difficulty: 'EASY',
+    text: 'A 2 kg body accelerates at 3 m/s^2. The net force acting on it is:',
+    options: ['1.5 N', '5 N', '6 N', '9 N'],
+    correctIndex: 2,
+    explanation: 'By Newton\'s second law F = ma = 2 × 3 = 6 N.',
+  },
+  {
+    id: 'bank-phy-3',
+    subject: Subject.PHYSICS,
+    chapterId: 'phy_7',
+    difficulty: 'MEDIUM',
+    text: 'The escape velocity from the surface of the Earth is approximately:',
+    options: ['7.9 km/s', '11.2 km/s', '3.0 km/s', '42 km/s'],
+    correctIndex: 1,
+    explanation: 'Escape velocity v = √(2gR) ≈ 11.2 km/s for the Earth.',
+  },
+  {
+    id: 'bank-phy-4',
+    subject: Subject.PHYSICS,
+    chapterId: 'phy_17',
+    difficulty: 'MEDIUM',
+    text: 'Two 4 Ω resistors are connected in parallel as shown. Their equivalent resistance is:',
+    figure: {
+      kind: 'SVG',
+      alt: 'Two 4 ohm resistors connected in parallel between points A and B',
+      source: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 220 110" font-family="sans-serif" font-size="12">'
+        + '<g fill="none" stroke="#111" stroke-width="2">'
+        + '<path d="M10 55h30M40 25v60M40 25h45M135 25h45M40 85h45M135 85h45M180 25v60M180 55h30"/>'
+        + '<path d="M85 25l5-8 10 16 10-16 10 16 10-16 5 8M85 85l5-8 10 16 10-16 10 16 10-16 5 8"/>'
+        + '</g><g fill="#111"><circle cx="10" cy="55" r="3"/><circle cx="210" cy="55" r="3"/>'
+        + '<text x="6" y="75">A</text><text x="204" y="75">B</text>'
+        + '<text x="100" y="12">4 Ω</text><text x="100" y="108">4 Ω</text></g></svg>',
+    },
+    options: ['8 Ω', '4 Ω', '1 Ω', '2 Ω'],
+    correctIndex: 3,
+    explanation: 'For two equal resistors in parallel, R_eq = R/2 = 2 Ω.',
+  },
+  {
+    id: 'bank-phy-5',
+    subject: Subject.PHYSICS,
+    chapterId: 'phy_4',
+    difficulty: 'MEDIUM',
+    format: 'NUMERIC',
+    text: 'A force of 10 N acts on a body of mass 2 kg initially at rest. The speed of the body after 3 s is:',
+    answer: 15,
+    unit: 'm/s',
+    explanation: 'a = F/m = 5 m/s^2, so v = at = 5 × 3 = 15 m/s.',
+  },
 
   // Chemistry
-  { id: 'chem_1', name: 'Some Basic Concepts of Chemistry', subject: Subject.CHEMISTRY },
-  { id: 'chem_2', name: 'Structure of Atom', subject: Subject.CHEMISTRY },
-  { id: 'chem_3', name: 'Classification of Elements and Periodicity', subject: Subject.CHEMISTRY },
-  { id: 'chem_4', name: 'Chemical Bonding and Molecular Structure', subject: Subject.CHEMISTRY },
-  { id: 'chem_5', name: 'Chemical Thermodynamics', subject: Subject.CHEMISTRY },
-  { id: 'chem_6', name: 'Equilibrium', subject: Subject.CHEMISTRY },
-  { id: 'chem_7', name: 'Redox Reactions', subject: Subject.CHEMISTRY },
-  { id: 'chem_8', name: 'p-Block Elements (Group 13-18)', subject: Subject.CHEMISTRY },
-  { id: 'chem_9', name: 'Organic Chemistry - Basic Principles', subject: Subject.CHEMISTRY },
-  { id: 'chem_10', name: 'Hydrocarbons', subject: Subject.CHEMISTRY },
-  { id: 'chem_11', name: 'Solutions', subject: Subject.CHEMISTRY },
-  { id: 'chem_12', name: 'Electrochemistry', subject: Subject.CHEMISTRY },
-  { id: 'chem_13', name: 'Chemical Kinetics', subject: Subject.CHEMISTRY },
-  { id: 'chem_14', name: 'd-and f-Block Elements', subject: Subject.CHEMISTRY },
-  { id: 'chem_15', name: 'Coordination Compounds', subject: Subject.CHEMISTRY },
-  { id: 'chem_16', name: 'Haloalkanes and Haloarenes', subject: Subject.CHEMISTRY },
-  { id: 'chem_17', name: 'Alcohols, Phenols and Ethers', subject: Subject.CHEMISTRY },
-  { id: 'chem_18', name: 'Aldehydes, Ketones and Carboxylic Acids', subject: Subject.CHEMISTRY },
-  { id: 'chem_19', name: 'Amines', subject: Subject.CHEMISTRY },
-  { id: 'chem_20', name: 'Biomolecules', subject: Subject.CHEMISTRY },
+  {
+    id: 'bank-chem-1',
+    subject: Subject.CHEMISTRY,
+    chapterId: 'chem_1',
+    difficulty: 'EASY',
+    text: 'The number of moles in 36 g of water is:',
+    options: ['1', '2', '3', '0.5'],
+    correctIndex: 1,
+    explanation: 'Molar mass of H_2O is 18 g/mol, so 36 g / 18 g/mol = 2 mol.',
+  },
+  {
+    id: 'bank-chem-2',
+    subject: Subject.CHEMISTRY,
+    chapterId: 'chem_4',
+    difficulty: 'MEDIUM',
+    text: 'The shape of the ammonia (NH_3) molecule is:',
+    options: ['Trigonal planar', 'Tetrahedral', 'Trigonal pyramidal', 'Linear'],
+    correctIndex: 2,
+    explanation: 'NH_3 has three bond pairs and one lone pair (sp^3), giving a trigonal pyramidal shape.',
+  },
+  {
+    id: 'bank-chem-3',
+    subject: Subject.CHEMISTRY,
+    chapterId: 'chem_6',
+    difficulty: 'EASY',
+    text: 'The pH of a 0.001 M HCl solution is:',
+    options: ['1', '2', '3', '11'],
+    correctIndex: 2,
+    explanation: 'HCl is a strong acid, so [H+] = 10^-3 M and pH = 3.',
+  },
+  {
+    id: 'bank-chem-4',
+    subject: Subject.CHEMISTRY,
+    chapterId: 'chem_10',
+    difficulty: 'MEDIUM',
+    text: 'Which of the following hydrocarbons is aromatic?',
+    options: ['Cyclohexane', 'Benzene', 'Ethene', 'Propyne'],
+    correctIndex: 1,
+    explanation: 'Benzene is planar, cyclic and has 6 π electrons, satisfying Hückel\'s (4n + 2) rule.',
+  },
+  {
+    id: 'bank-chem-5',
+    subject: Subject.CHEMISTRY,
+    chapterId: 'chem_4',
+    difficulty: 'HARD',
+    format: 'MATCH',
+    text: 'Match the molecules in List I with their shapes in List II.',
+    columnA: ['BeCl_2', 'BF_3', 'CH_4', 'H_2O'],
+    columnB: ['Tetrahedral', 'Linear', 'Bent', 'Trigonal planar'],
+    options: ['A-II, B-IV, C-I, D-III', 'A-II, B-I, C-IV, D-III', 'A-IV, B-II, C-I, D-III', 'A-II, B-IV, C-III, D-I'],
+    correctIndex: 0,
+    explanation: 'BeCl_2 is linear (sp), BF_3 trigonal planar (sp^2), CH_4 tetrahedral (sp^3) and H_2O bent (two lone pairs).',
+  },
 
   // Botany
-  { id: 'bot_1', name: 'The Living World', subject: Subject.BOTANY },
-  { id: 'bot_2', name: 'Biological Classification', subject: Subject.BOTANY },
-  { id: 'bot_3', name: 'Plant Kingdom', subject: Subject.BOTANY },
-  { id: 'bot_4', name: 'Morphology of Flowering Plants', subject: Subject.BOTANY },
-  { id: 'bot_5', name: 'Anatomy of Flowering Plants', subject: Subject.BOTANY },
-  { id: 'bot_6', name: 'Cell: The Unit of Life', subject: Subject.BOTANY },
-  { id: 'bot_7', name: 'Biomolecules (Botany Context)', subject: Subject.BOTANY },
-  { id: 'bot_8', name: 'Cell Cycle and Cell Division', subject: Subject.BOTANY },
-  { id: 'bot_9', name: 'Photosynthesis in Higher Plants', subject: Subject.BOTANY },
-  { id: 'bot_10', name: 'Respiration in Plants', subject: Subject.BOTANY },
-  { id: 'bot_11', name: 'Plant Growth and Development', subject: Subject.BOTANY },
-  { id: 'bot_12', name: 'Sexual Reproduction in Flowering Plants', subject: Subject.BOTANY },
-  { id: 'bot_13', name: 'Principles of Inheritance and Variation', subject: Subject.BOTANY },
-  { id: 'bot_14', name: 'Molecular Basis of Inheritance', subject: Subject.BOTANY },
-  { id: 'bot_15', name: 'Organisms and Populations', subject: Subject.BOTANY },
-  { id: 'bot_16', name: 'Ecosystem', subject: Subject.BOTANY },
-  { id: 'bot_17', name: 'Biodiversity and Conservation', subject: Subject.BOTANY },
+  {
+    id: 'bank-bot-1',
+    subject: Subject.BOTANY,
+    chapterId: 'bot_6',
+    difficulty: 'EASY',
+    text: 'Which cell organelle is known as the "powerhouse of the cell"?',
+    options: ['Golgi apparatus', 'Ribosome', 'Mitochondrion', 'Lysosome'],
+    correctIndex: 2,
+    explanation: 'Mitochondria are the site of aerobic respiration and produce most of the cell\'s ATP.',
+  },
+  {
+    id: 'bank-bot-2',
+    subject: Subject.BOTANY,
+    chapterId: 'bot_9',
+    difficulty: 'MEDIUM',
+    text: 'The primary CO_2 acceptor in the Calvin cycle is:',
+    options: ['PEP', 'RuBP', 'OAA', 'PGA'],
+    correctIndex: 1,
+    explanation: 'RuBisCO fixes CO_2 onto ribulose-1,5-bisphosphate (RuBP) in C3 plants.',
+  },
+  {
+    id: 'bank-bot-3',
+    subject: Subject.BOTANY,
+    chapterId: 'bot_13',
+    difficulty: 'EASY',
+    text: 'The phenotypic ratio of a Mendelian monohybrid cross in the F2 generation is:',
+    options: ['1:2:1', '9:3:3:1', '3:1', '1:1'],
+    correctIndex: 2,
+    explanation: 'Selfing the F1 (Tt) gives 3 dominant : 1 recessive phenotypes in F2.',
+  },
+  {
+    id: 'bank-bot-4',
+    subject: Subject.BOTANY,
+    chapterId: 'bot_16',
+    difficulty: 'MEDIUM',
+    text: 'The pyramid of energy in an ecosystem is:',
+    options: ['Always upright', 'Always inverted', 'Spindle shaped', 'Upright or inverted'],
+    correctIndex: 0,
+    explanation: 'Energy is lost at each trophic level, so the pyramid of energy is always upright.',
+  },
+  {
+    id: 'bank-bot-5',
+    subject: Subject.BOTANY,
+    chapterId: 'bot_9',
+    difficulty: 'HARD',
+    format: 'ASSERTION_REASON',
+    text: 'Given below are two statements: one is labelled Assertion (A) and the other Reason (R).',
+    assertion: 'C4 plants show little or no photorespiration.',
+    reason: 'In C4 plants RuBisCO works in bundle sheath cells where the CO_2 concentration is high.',
+    options: ASSERTION_REASON_OPTIONS,
+    correctIndex: 0,
+    explanation: 'The C4 pathway concentrates CO_2 around RuBisCO in the bundle sheath, which suppresses its oxygenase activity.',
+  },
 
   // Zoology
-  { id: 'zoo_1', name: 'Animal Kingdom', subject: Subject.ZOOLOGY },
-  { id: 'zoo_2', name: 'Structural Organisation in Animals', subject: Subject.ZOOLOGY },
-  { id: 'zoo_3', name: 'Breathing and Exchange of Gases', subject: Subject.ZOOLOGY },
-  { id: 'zoo_4', name: 'Body Fluids and Circulation', subject: Subject.ZOOLOGY },
-  { id: 'zoo_5', name: 'Excretory Products and their Elimination', subject: Subject.ZOOLOGY },
-  { id: 'zoo_6', name: 'Locomotion and Movement', subject: Subject.ZOOLOGY },
-  { id: 'zoo_7', name: 'Neural Control and Coordination', subject: Subject.ZOOLOGY },
-  { id: 'zoo_8', name: 'Chemical Coordination and Integration', subject: Subject.ZOOLOGY },
-  { id: 'zoo_9', name: 'Human Reproduction', subject: Subject.ZOOLOGY },
-  { id: 'zoo_10', name: 'Reproductive Health', subject: Subject.ZOOLOGY },
-  { id: 'zoo_11', name: 'Evolution', subject: Subject.ZOOLOGY },
-  { id: 'zoo_12', name: 'Human Health and Disease', subject: Subject.ZOOLOGY },
-  { id: 'zoo_13', name: 'Biotechnology: Principles and Processes', subject: Subject.ZOOLOGY },
-  { id: 'zoo_14', name: 'Biotechnology and its Applications', subject: Subject.ZOOLOGY },
-];
\ No newline at end of file
+  {
+    id: 'bank-zoo-1',
+    subject: Subject.ZOOLOGY,
+    chapterId: 'zoo_3',
+    difficulty: 'MEDIUM',
+    text: 'Most of the CO_2 in human blood is transported as:',
+    options: ['Carbaminohaemoglobin', 'Bicarbonate', 'Dissolved CO_2', 'Carbonic acid'],
+    correctIndex: 1,
+    explanation: 'About 70% of CO_2 is carried as bicarbonate, formed with the help of carbonic anhydrase in RBCs.',
+  },
+  {
+    id: 'bank-zoo-2',
+    subject: Subject.ZOOLOGY,
+    chapterId: 'zoo_4',
+    difficulty: 'EASY',
+    text: 'The pacemaker of the human heart is the:',
+    options: ['AV node', 'Bundle of His', 'SA node', 'Purkinje fibres'],
+    correctIndex: 2,
+    explanation: 'The sino-atrial (SA) node generates the maximum number of action potentials and sets the heart rhythm.',
+  },
+  {
+    id: 'bank-zoo-3',
+    subject: Subject.ZOOLOGY,
+    chapterId: 'zoo_8',
+    difficulty: 'EASY',
+    text: 'Which hormone lowers blood glucose levels?',
+    options: ['Glucagon', 'Insulin', 'Cortisol', 'Adrenaline'],
+    correctIndex: 1,
+    explanation: 'Insulin from pancreatic β-cells promotes glucose uptake by cells, lowering blood glucose.',
+  },
+  {
+    id: 'bank-zoo-5',
+    subject: Subject.ZOOLOGY,
+    chapterId: 'zoo_4',
+    difficulty: 'HARD',
+    format: 'STATEMENTS',
+    text: 'Consider the following statements about the human heart and choose the correct option.',
+    statements: [
+      'The SA node is located in the right upper corner of the right atrium.',
+      'The bicuspid valve guards the opening between the right atrium and right ventricle.',
+      'The ventricular walls are thicker than the atrial walls.',
+    ],
+    options: ['A and B only', 'A and C only', 'B and C only', 'A, B and C'],
+    correctIndex: 1,
+    explanation: 'The bicuspid (mitral) valve lies between the left atrium and left ventricle; the tricuspid valve guards the right side.',
+  },
+  {
+    id: 'bank-zoo-4',
+    subject: Subject.ZOOLOGY,
+    chapterId: 'zoo_13',
+    difficulty: 'MEDIUM',
+    text: 'Which enzyme is used to join DNA fragments in recombinant DNA technology?',
+    options: ['Restriction endonuclease', 'DNA polymerase', 'DNA ligase', 'Helicase'],
+    correctIndex: 2,
+    explanation: 'DNA ligase seals the sugar-phosphate backbone, joining the insert to the vector.',
+  },
+];
@@ -0,0 +1,365 @@
+// Relay for online Battle Arena duels. Run with `npm run relay`.
+//
+// The host sends the question set when creating a room; the relay then owns
+// the match: it timestamps answers on arrival (so the first answer to reach
+// the server wins the round), runs the round countdown and keeps scores.
+// Every change is broadcast to both players as a full state snapshot, which
+// only carries a question's key once its round is over.
+
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  BattleConfig,
+  BattleRoundResult,
+  OnlineRoomState,
+  ChoiceQuestion,
+  Player,
+  RelayClientMessage,
+  RelayServerMessage,
+  UnrevealedQuestion,
+} from '../types';
+import { scoreBattleAnswer } from '../services/battleScoring';
+import { isAnswerCorrect } from '../services/questionFormat';
+
+const PORT = Number(process.env.BATTLE_RELAY_PORT) || 8787;
+const ROUND_PAUSE_MS = 2000; // Time to show the round result
+const RECONNECT_GRACE_MS = 60_000; // How long a dropped player's seat is held
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+
+interface Seat {
+  sessionId: string;
+  socket: WebSocket | null;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Room {
+  code: string;
+  config: BattleConfig;
+  questions: ChoiceQuestion[];
+  seats: Record<Player, Seat | null>;
+  currentQIndex: number;
+  scores: Record<Player, number>;
+  phase: OnlineRoomState['phase'];
+  lastRound: BattleRoundResult | null;
+  rounds: BattleRoundResult[];
+  abandonedBy: Player | null;
+  // Round clock. While paused, `elapsedBeforePauseMs` holds the time used so far.
+  roundStartedAt: number;
+  elapsedBeforePauseMs: number;
+  paused: boolean;
+  roundTimer: ReturnType<typeof setTimeout> | null;
+  advanceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const rooms = new Map<string, Room>();
+const socketSeats = new Map<WebSocket, { room: Room; player: Player }>();
+
+// --- HELPERS ---
+
+const send = (socket: WebSocket | null, message: RelayServerMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const createRoomCode = (): string => {
+  let code = '';
+  do {
+    code = Array.from({ length: 4 }, () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const elapsedMs = (room: Room) =>
+  room.paused ? room.elapsedBeforePauseMs : Date.now() - room.roundStartedAt;
+
+// How many questions, from the first, the players may see with their keys
+const revealedCount = (room: Room): number => {
+  switch (room.phase) {
+    case 'WAITING': return 0;
+    case 'PLAYING': return room.currentQIndex;
+    case 'ROUND_OVER': return room.currentQIndex + 1;
+    case 'FINISHED': return room.questions.length;
+  }
+};
+
+const withoutKey = ({ correctIndex, explanation, ...question }: ChoiceQuestion): UnrevealedQuestion => question;
+
+const snapshot = (room: Room): OnlineRoomState => ({
+  roomCode: room.code,
+  config: room.config,
+  questions: room.questions.slice(0, revealedCount(room)),
+  currentQuestion: room.phase === 'PLAYING' ? withoutKey(room.questions[room.currentQIndex]) : null,
+  questionCount: room.questions.length,
+  currentQIndex: room.currentQIndex,
+  scores: room.scores,
+  phase: room.phase,
+  connected: {
+    P1: !!room.seats.P1?.socket,
+    P2: !!room.seats.P2?.socket,
+  },
+  paused: room.paused,
+  lastRound: room.lastRound,
+  rounds: room.rounds,
+  roundTimeLeftMs: room.config.roundTimeLimit && room.phase === 'PLAYING'
+    ? Math.max(0, room.config.roundTimeLimit * 1000 - elapsedMs(room))
+    : null,
+  abandonedBy: room.abandonedBy,
+});
+
+const broadcast = (room: Room) => {
+  const state = snapshot(room);
+  send(room.seats.P1?.socket ?? null, { type: 'STATE', state });
+  send(room.seats.P2?.socket ?? null, { type: 'STATE', state });
+};
+
+const clearTimers = (room: Room) => {
+  if (room.roundTimer) clearTimeout(room.roundTimer);
+  if (room.advanceTimer) clearTimeout(room.advanceTimer);
+  room.roundTimer = null;
+  room.advanceTimer = null;
+};
+
+const closeRoom = (room: Room) => {
+  clearTimers(room);
+  (['P1', 'P2'] as Player[]).forEach(p => {
+    const seat = room.seats[p];
+    if (seat?.graceTimer) clearTimeout(seat.graceTimer);
+  });
+  rooms.delete(room.code);
+};
+
+// --- ROUND FLOW ---
+
+const scheduleRoundTimeout = (room: Room) => {
+  if (room.roundTimer) clearTimeout(room.roundTimer);
+  room.roundTimer = null;
+  if (!room.config.roundTimeLimit || room.paused || room.phase !== 'PLAYING') return;
+
+  const remaining = room.config.roundTimeLimit * 1000 - elapsedMs(room);
+  room.roundTimer = setTimeout(() => endRound(room, null), Math.max(0, remaining));
+};
+
+const startRound = (room: Room, index: number) => {
+  room.currentQIndex = index;
+  room.phase = 'PLAYING';
+  room.lastRound = null;
+  room.roundStartedAt = Date.now();
+  room.elapsedBeforePauseMs = 0;
+  scheduleRoundTimeout(room);
+  broadcast(room);
+};
+
+const endRound = (room: Room, result: BattleRoundResult | null) => {
+  if (room.phase !== 'PLAYING') return;
+  clearTimers(room);
+
+  room.lastRound = result ?? {
+    questionIndex: room.currentQIndex,
+    answeredBy: null,
+    selectedIndex: null,
+    isCorrect: false,
+    roundWinner: null,
+    reactionMs: null,
+  };
+  room.rounds.push(room.lastRound);
+  room.phase = 'ROUND_OVER';
+  broadcast(room);
+
+  room.advanceTimer = setTimeout(() => {
+    room.advanceTimer = null;
+    if (room.currentQIndex + 1 < room.questions.length) {
+      startRound(room, room.currentQIndex + 1);
+    } else {
+      room.phase = 'FINISHED';
+      broadcast(room);
+    }
+  }, ROUND_PAUSE_MS);
+};
+
+const handleAnswer = (room: Room, player: Player, questionIndex: number, selectedIndex: number) => {
+  // Late or duplicate answers for a round that is already decided are ignored
+  if (room.phase !== 'PLAYING' || room.paused || questionIndex !== room.currentQIndex) return;
+
+  const reactionMs = elapsedMs(room);
+  const question = room.questions[room.currentQIndex];
+  const isCorrect = isAnswerCorrect(question, selectedIndex);
+  const { deltas, roundWinner } = scoreBattleAnswer(room.config.scoringRule, player, isCorrect, reactionMs, room.config.speedBonus);
+
+  room.scores = { P1: room.scores.P1 + deltas.P1, P2: room.scores.P2 + deltas.P2 };
+  endRound(room, {
+    questionIndex,
+    answeredBy: player,
+    selectedIndex,
+    isCorrect,
+    roundWinner,
+    reactionMs,
+  });
+};
+
+// --- CONNECTIONS ---
+
+const pause = (room: Room) => {
+  if (room.paused) return;
+  room.elapsedBeforePauseMs = Date.now() - room.roundStartedAt;
+  room.paused = true;
+  if (room.roundTimer) clearTimeout(room.roundTimer);
+  room.roundTimer = null;
+};
+
+const resume = (room: Room) => {
+  if (!room.paused || !room.seats.P1?.socket || !room.seats.P2?.socket) return;
+  room.roundStartedAt = Date.now() - room.elapsedBeforePauseMs;
+  room.paused = false;
+  scheduleRoundTimeout(room);
+};
+
+const attach = (room: Room, player: Player, socket: WebSocket) => {
+  const seat = room.seats[player]!;
+  if (seat.socket && seat.socket !== socket) {
+    socketSeats.delete(seat.socket);
+    seat.socket.close();
+  }
+  if (seat.graceTimer) clearTimeout(seat.graceTimer);
+  seat.graceTimer = null;
+  seat.socket = socket;
+  socketSeats.set(socket, { room, player });
+  send(socket, { type: 'SEAT', roomCode: room.code, player, sessionId: seat.sessionId });
+};
+
+const handleDisconnect = (socket: WebSocket) => {
+  const entry = socketSeats.get(socket);
+  socketSeats.delete(socket);
+  if (!entry) return;
+
+  const { room, player } = entry;
+  const seat = room.seats[player];
+  if (!seat || seat.socket !== socket) return;
+  seat.socket = null;
+
+  if (room.phase === 'FINISHED') {
+    if (!room.seats.P1?.socket && !room.seats.P2?.socket) closeRoom(room);
+    return;
+  }
+
+  if (room.phase !== 'WAITING') pause(room);
+  broadcast(room);
+
+  seat.graceTimer = setTimeout(() => {
+    seat.graceTimer = null;
+    // The last round may have ended normally while the player was away
+    if (room.phase === 'FINISHED') {
+      if (!room.seats.P1?.socket && !room.seats.P2?.socket) closeRoom(room);
+      return;
+    }
+    if (room.phase !== 'WAITING') {
+      clearTimers(room);
+      room.phase = 'FINISHED';
+      room.abandonedBy = player;
+      broadcast(room);
+    }
+    closeRoom(room);
+  }, RECONNECT_GRACE_MS);
+};
+
+const handleMessage = (socket: WebSocket, message: RelayClientMessage) => {
+  switch (message.type) {
+    case 'CREATE_ROOM': {
+      if (!Array.isArray(message.questions) || message.questions.length === 0) {
+        send(socket, { type: 'ERROR', code: 'BAD_REQUEST', message: 'A room needs at least one question.' });
+        return;
+      }
+      const room: Room = {
+        code: createRoomCode(),
+        config: message.config,
+        questions: message.questions,
+        seats: { P1: { sessionId: randomUUID(), socket: null, graceTimer: null }, P2: null },
+        currentQIndex: 0,
+        scores: { P1: 0, P2: 0 },
+        phase: 'WAITING',
+        lastRound: null,
+        rounds: [],
+        abandonedBy: null,
+        roundStartedAt: 0,
+        elapsedBeforePauseMs: 0,
+        paused: false,
+        roundTimer: null,
+        advanceTimer: null,
+      };
+      rooms.set(room.code, room);
+      attach(room, 'P1', socket);
+      broadcast(room);
+      return;
+    }
+
+    case 'JOIN_ROOM': {
+      const room = rooms.get(message.roomCode.trim().toUpperCase());
+      if (!room) {
+        send(socket, { type: 'ERROR', code: 'ROOM_NOT_FOUND', message: 'Room not found. Check the code and try again.' });
+        return;
+      }
+      if (room.seats.P2) {
+        send(socket, { type: 'ERROR', code: 'ROOM_FULL', message: 'This room already has two players.' });
+        return;
+      }
+      room.seats.P2 = { sessionId: randomUUID(), socket: null, graceTimer: null };
+      attach(room, 'P2', socket);
+      startRound(room, 0);
+      if (!room.seats.P1?.socket) {
+        // Host is mid-reconnect; hold the first round until they are back
+        pause(room);
+        broadcast(room);
+      }
+      return;
+    }
+
+    case 'RESUME': {
+      const room = rooms.get(message.roomCode);
+      const player = (['P1', 'P2'] as Player[]).find(p => room?.seats[p]?.sessionId === message.sessionId);
+      if (!room || !player) {
+        send(socket, { type: 'ERROR', code: 'MATCH_ENDED', message: 'That match has ended.' });
+        return;
+      }
+      attach(room, player, socket);
+      resume(room);
+      broadcast(room);
+      return;
+    }
+
+    case 'ANSWER': {
+      const entry = socketSeats.get(socket);
+      if (entry) handleAnswer(entry.room, entry.player, message.questionIndex, message.selectedIndex);
+      return;
+    }
+
+    case 'LEAVE': {
+      const entry = socketSeats.get(socket);
+      if (!entry) return;
+      const { room, player } = entry;
+      socketSeats.delete(socket);
+      room.seats[player]!.socket = null;
+      if (room.phase !== 'FINISHED' && room.phase !== 'WAITING') {
+        clearTimers(room);
+        room.phase = 'FINISHED';
+        room.abandonedBy = player;
+      }
+      broadcast(room);
+      closeRoom(room);
+      return;
+    }
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    try {
+      handleMessage(socket, JSON.parse(data.toString()) as RelayClientMessage);
+    } catch (error) {
+      console.error('Bad message from client:', error);
+      send(socket, { type: 'ERROR', code: 'BAD_REQUEST', message: 'Malformed message.' });
+    }
+  });
+  socket.on('close', () => handleDisconnect(socket));
+});
+
+console.log(`Battle relay listening on ws://localhost:${PORT}`);
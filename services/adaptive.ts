@@ -0,0 +1,53 @@
+import { Answer, Difficulty, Question } from "../types";
+import { DIFFICULTY_LEVELS } from "../constants";
+import { isAnswerCorrect } from "./questionFormat";
+
+// Ability and question difficulty share one logit scale (a Rasch model): a
+// student whose ability equals a question's rating has an even chance of
+// getting it right. The estimate is updated Elo-style after each answer, with
+// a step that shrinks as evidence accumulates.
+
+const MIN_STEP = 0.3;
+
+export interface AbilityEstimate {
+  theta: number; // Logits; 0 = an even chance on a MEDIUM question
+  standardError: number | null; // null until something has been answered
+  history: number[]; // Estimate after each answered question
+}
+
+// EASY = -1, MEDIUM = 0, HARD = +1
+export const difficultyRating = (difficulty: Difficulty = 'MEDIUM'): number =>
+  DIFFICULTY_LEVELS.findIndex(level => level.id === difficulty) - 1;
+
+export const expectedScore = (theta: number, difficulty?: Difficulty): number =>
+  1 / (1 + Math.exp(difficultyRating(difficulty) - theta));
+
+// Replays the answers in question order, so going back and changing one gives
+// the same estimate as answering it that way first. Skipped questions say
+// nothing about ability and are left out.
+export const estimateAbility = (
+  questions: Question[],
+  answers: Answer[],
+  start: Difficulty = 'MEDIUM'
+): AbilityEstimate => {
+  let theta = difficultyRating(start);
+  let information = 0;
+  const history: number[] = [];
+
+  questions.forEach((q, i) => {
+    if (answers[i] === undefined || answers[i] === null) return;
+    const expected = expectedScore(theta, q.difficulty);
+    const step = Math.max(MIN_STEP, 1 / Math.sqrt(history.length + 1));
+    theta += step * ((isAnswerCorrect(q, answers[i]) ? 1 : 0) - expected);
+    information += expected * (1 - expected);
+    history.push(theta);
+  });
+
+  return { theta, standardError: information > 0 ? 1 / Math.sqrt(information) : null, history };
+};
+
+// The level closest to the student's ability, where they get roughly half right
+export const difficultyForAbility = (theta: number): Difficulty => {
+  const index = Math.min(DIFFICULTY_LEVELS.length - 1, Math.max(0, Math.round(theta) + 1));
+  return DIFFICULTY_LEVELS[index].id;
+};
@@ -0,0 +1,97 @@
+import { Answer, ChapterResult, PerformanceStats, PracticeAttempt, Question, Subject } from "../types";
+import { STORES, getAllRecords, putRecord } from "./db";
+import { isAnswerCorrect, normalizeAnswers } from "./questionFormat";
+
+export const saveAttempt = async (attempt: PracticeAttempt): Promise<void> => {
+  try {
+    await putRecord(STORES.ATTEMPTS, attempt);
+  } catch (error) {
+    console.error("Failed to save attempt:", error);
+  }
+};
+
+export const getAttempts = async (): Promise<PracticeAttempt[]> => {
+  try {
+    const attempts = await getAllRecords<PracticeAttempt>(STORES.ATTEMPTS);
+    return attempts
+      .map(a => ({ ...a, answers: normalizeAnswers(a.questions, a.answers) }))
+      .sort((a, b) => a.completedAt - b.completedAt);
+  } catch (error) {
+    console.error("Failed to load attempts:", error);
+    return [];
+  }
+};
+
+// --- ANALYTICS ---
+
+// Question indices of an attempt that count towards a chapter. Questions
+// tagged with their chapter are counted exactly; older attempts didn't record
+// that, so each selected chapter is credited with their whole attempt.
+const questionsForChapter = (attempt: PracticeAttempt, chapterId: string): number[] => {
+  if (attempt.questions.some(q => q.chapterId)) {
+    return attempt.questions.map((q, i) => (q.chapterId === chapterId ? i : -1)).filter(i => i >= 0);
+  }
+  return attempt.chapterIds.includes(chapterId) ? attempt.questions.map((_, i) => i) : [];
+};
+
+const buildStats = (
+  attempts: PracticeAttempt[],
+  pickQuestions: (attempt: PracticeAttempt) => number[]
+): PerformanceStats | null => {
+  let attempted = 0;
+  let correct = 0;
+  let skipped = 0;
+  let totalTime = 0;
+  const trend: PerformanceStats['trend'] = [];
+
+  attempts.forEach(attempt => {
+    const indices = pickQuestions(attempt);
+    if (indices.length === 0) return;
+
+    const attemptCorrect = indices.filter(i => isAnswerCorrect(attempt.questions[i], attempt.answers[i])).length;
+    attempted += indices.length;
+    correct += attemptCorrect;
+    skipped += indices.filter(i => attempt.answers[i] === null).length;
+    totalTime += indices.reduce((acc, i) => acc + (attempt.timeTaken[i] || 0), 0);
+    trend.push({ completedAt: attempt.completedAt, accuracy: attemptCorrect / indices.length });
+  });
+
+  if (attempted === 0) return null;
+
+  return {
+    attempted,
+    correct,
+    skipped,
+    accuracy: correct / attempted,
+    avgTimePerQuestion: totalTime / attempted,
+    trend,
+  };
+};
+
+export const getSubjectStats = (attempts: PracticeAttempt[], subject: Subject): PerformanceStats | null =>
+  buildStats(
+    attempts.filter(a => a.subject === subject),
+    a => a.questions.map((_, i) => i)
+  );
+
+export const getChapterStats = (attempts: PracticeAttempt[], chapterId: string): PerformanceStats | null =>
+  buildStats(attempts, a => questionsForChapter(a, chapterId));
+
+// Score per chapter for one set of answers, in order of first appearance.
+// Untagged questions (packs, review cards) are left out.
+export const getChapterBreakdown = (
+  questions: Question[],
+  answers: Answer[],
+  timeTaken: number[]
+): ChapterResult[] => {
+  const results = new Map<string, ChapterResult>();
+  questions.forEach((q, i) => {
+    if (!q.chapterId) return;
+    const result = results.get(q.chapterId) ?? { chapterId: q.chapterId, correct: 0, total: 0, seconds: 0 };
+    result.total++;
+    if (isAnswerCorrect(q, answers[i])) result.correct++;
+    result.seconds += timeTaken[i] || 0;
+    results.set(q.chapterId, result);
+  });
+  return Array.from(results.values());
+};
@@ -0,0 +1,256 @@
+import { Answer, PracticeAttempt, Question } from "../types";
+import { DIFFICULTY_LEVELS } from "../constants";
+import { getChapterBreakdown } from "./attemptHistory";
+import { escapeCsvCell } from "./questionPack";
+import { figureSrc } from "./figures";
+import { latexToPlainText } from "./latex";
+import { findChapter } from "./syllabus";
+import {
+  formatAnswer,
+  formatCorrectAnswer,
+  isAnswerCorrect,
+  isChoiceQuestion,
+  matchLeftLabel,
+  matchRightLabel,
+  optionLabel,
+} from "./questionFormat";
+
+// Shareable reports of a finished attempt, built entirely in the browser: a
+// standalone HTML page (printed to PDF from its own window) and a CSV of the
+// raw per-question rows.
+
+const KATEX_CSS = "https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css";
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Same $ / $$ splitting as MathRenderer, but to a string so the report needs
+// no scripts. Falls back to readable text where KaTeX isn't loaded or fails.
+const renderMath = (text: string): string =>
+  (text ?? "")
+    .split(/(\$\$[^$]+\$\$|\$[^$]+\$)/g)
+    .map(part => {
+      const displayMode = part.startsWith("$$") && part.endsWith("$$");
+      const isMath = displayMode || (part.startsWith("$") && part.endsWith("$") && part.length > 1);
+      if (!isMath) return escapeHtml(part);
+      try {
+        const source = displayMode ? part.slice(2, -2) : part.slice(1, -1);
+        return window.katex.renderToString(source, { displayMode, throwOnError: true });
+      } catch (e) {
+        return escapeHtml(latexToPlainText(part));
+      }
+    })
+    .join("");
+
+const chapterName = (chapterId: string): string => findChapter(chapterId)?.chapter.name ?? chapterId;
+
+const difficultyLabel = (q: Question): string =>
+  DIFFICULTY_LEVELS.find(level => level.id === q.difficulty)?.label ?? "";
+
+const resultLabel = (q: Question, answer: Answer): string =>
+  answer === null ? "SKIPPED" : isAnswerCorrect(q, answer) ? "CORRECT" : "INCORRECT";
+
+const formatDuration = (seconds: number): string =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+
+const figureHtml = (figure: Question["figure"], className = "figure"): string =>
+  figure
+    ? `<img class="${className}" src="${escapeHtml(figureSrc(figure))}" alt="${escapeHtml(figure.alt ?? "Figure")}" />`
+    : "";
+
+// Assertion/reason, match columns or statements, as QuestionDetails shows them
+const formatDetailsHtml = (q: Question): string => {
+  switch (q.format) {
+    case "ASSERTION_REASON":
+      return `<p><b>Assertion (A):</b> ${renderMath(q.assertion)}</p><p><b>Reason (R):</b> ${renderMath(q.reason)}</p>`;
+    case "MATCH":
+      return `<table class="match"><tr><th>List I</th><th>List II</th></tr>${q.columnA
+        .map((left, i) =>
+          `<tr><td><b>${matchLeftLabel(i)}.</b> ${renderMath(left)}</td><td><b>${matchRightLabel(i)}.</b> ${renderMath(q.columnB[i] ?? "")}</td></tr>`
+        )
+        .join("")}</table>`;
+    case "STATEMENTS":
+      return `<ol class="statements">${q.statements
+        .map((statement, i) => `<li><b>${matchLeftLabel(i)}.</b> ${renderMath(statement)}</li>`)
+        .join("")}</ol>`;
+    default:
+      return "";
+  }
+};
+
+// Options are marked as on the results screen: the key in green, a wrong pick in red
+const answerHtml = (q: Question, answer: Answer): string => {
+  if (!isChoiceQuestion(q)) {
+    const mark = isAnswerCorrect(q, answer) ? "right" : "wrong";
+    return `<div class="numeric"><span class="option ${mark}">Your answer: ${escapeHtml(formatAnswer(q, answer))}</span>` +
+      `<span class="option right">Correct answer: ${escapeHtml(formatCorrectAnswer(q))}</span></div>`;
+  }
+  return `<ul class="options">${q.options
+    .map((option, i) => {
+      const mark = i === q.correctIndex ? "right" : i === answer ? "wrong" : "";
+      const note = i === q.correctIndex ? " ✓" : i === answer ? " ✗ your answer" : "";
+      return `<li class="option ${mark}"><b>${optionLabel(i)}.</b> ${renderMath(option)}<em>${note}</em>${figureHtml(q.optionFigures?.[i], "figure small")}</li>`;
+    })
+    .join("")}</ul>`;
+};
+
+const questionHtml = (q: Question, index: number, attempt: PracticeAttempt): string => {
+  const answer = attempt.answers[index] ?? null;
+  const result = resultLabel(q, answer);
+  const meta = [
+    `Q${index + 1}`,
+    q.chapterId && chapterName(q.chapterId),
+    difficultyLabel(q),
+    formatDuration(attempt.timeTaken[index] || 0),
+  ].filter(Boolean);
+  return `<section class="question ${result.toLowerCase()}">
+  <div class="meta"><span>${escapeHtml(meta.join(" • "))}</span><span class="badge">${result}</span></div>
+  <h3>${renderMath(q.text)}</h3>
+  ${figureHtml(q.figure)}
+  ${formatDetailsHtml(q)}
+  ${answerHtml(q, answer)}
+  ${q.explanation ? `<div class="explanation"><h4>NCERT Explanation</h4><p>${renderMath(q.explanation)}</p></div>` : ""}
+</section>`;
+};
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #0f172a; max-width: 800px; margin: 0 auto; padding: 32px; line-height: 1.5; }
+  header { border-bottom: 3px solid #6366f1; padding-bottom: 16px; margin-bottom: 24px; }
+  header h1 { margin: 0 0 4px; font-size: 24px; }
+  header p { margin: 0; color: #475569; font-size: 13px; }
+  .summary { display: flex; gap: 12px; margin: 16px 0 0; }
+  .summary div { flex: 1; border: 1px solid #cbd5e1; border-radius: 8px; padding: 8px 12px; }
+  .summary b { display: block; font-size: 20px; }
+  .summary span { font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .chapters { margin-bottom: 24px; }
+  .question { border: 1px solid #cbd5e1; border-left: 5px solid #ef4444; border-radius: 8px; padding: 16px; margin-bottom: 16px; break-inside: avoid; }
+  .question.correct { border-left-color: #22c55e; }
+  .question.skipped { border-left-color: #eab308; }
+  .question h3 { font-size: 16px; margin: 8px 0; }
+  .meta { display: flex; justify-content: space-between; font-size: 12px; color: #64748b; font-family: ui-monospace, monospace; }
+  .badge { font-weight: bold; }
+  .options { list-style: none; padding: 0; display: grid; grid-template-columns: 1fr 1fr; gap: 8px; }
+  .numeric { display: flex; gap: 8px; margin: 12px 0; }
+  .option { border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px; font-size: 14px; color: #475569; }
+  .option.right { border-color: #22c55e; background: #f0fdf4; color: #14532d; }
+  .option.wrong { border-color: #ef4444; background: #fef2f2; color: #7f1d1d; }
+  .option em { font-style: normal; font-size: 12px; font-weight: bold; }
+  .statements { list-style: none; padding: 0; }
+  .figure { display: block; max-width: 100%; max-height: 240px; margin: 8px auto; }
+  .figure.small { max-height: 96px; }
+  .explanation { background: #f8fafc; border-radius: 6px; padding: 8px 12px; font-size: 14px; }
+  .explanation h4 { margin: 0 0 4px; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #6366f1; }
+  .explanation p { margin: 0; }
+  @media print { body { padding: 0; } }
+`;
+
+// A standalone page: KaTeX's stylesheet is the only outside resource, and the
+// math is already typeset so nothing runs when it is opened
+export const buildAttemptReport = (attempt: PracticeAttempt, title: string): string => {
+  const { questions, answers, timeTaken } = attempt;
+  const correct = questions.filter((q, i) => isAnswerCorrect(q, answers[i])).length;
+  const skipped = answers.filter(a => a === null).length;
+  const totalSeconds = timeTaken.reduce((sum, t) => sum + (t || 0), 0);
+  const chapters = getChapterBreakdown(questions, answers, timeTaken);
+  const completed = new Date(attempt.completedAt).toLocaleString();
+
+  const summary = [
+    [`${correct} / ${questions.length}`, "Score"],
+    [`${questions.length ? Math.round((correct / questions.length) * 100) : 0}%`, "Accuracy"],
+    [String(skipped), "Skipped"],
+    [formatDuration(totalSeconds), "Total time"],
+    [formatDuration(questions.length ? Math.round(totalSeconds / questions.length) : 0), "Per question"],
+    ...(attempt.ability !== undefined ? [[`${attempt.ability >= 0 ? "+" : ""}${attempt.ability.toFixed(2)}`, "Ability"]] : []),
+  ];
+
+  const chapterTable = chapters.length > 1
+    ? `<table class="chapters"><tr><th>Chapter</th><th>Score</th><th>Time / question</th></tr>${chapters
+        .map(c => `<tr><td>${escapeHtml(chapterName(c.chapterId))}</td><td>${c.correct}/${c.total}</td><td>${formatDuration(Math.round(c.seconds / c.total))}</td></tr>`)
+        .join("")}</table>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)} – ${escapeHtml(attempt.subject)}</title>
+<link rel="stylesheet" href="${KATEX_CSS}" crossorigin="anonymous" />
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(attempt.subject)} • Completed ${escapeHtml(completed)}</p>
+  <div class="summary">${summary.map(([value, label]) => `<div><b>${escapeHtml(value)}</b><span>${label}</span></div>`).join("")}</div>
+</header>
+${chapterTable}
+${questions.map((q, i) => questionHtml(q, i, attempt)).join("\n")}
+</body>
+</html>`;
+};
+
+const CSV_COLUMNS = [
+  "question_number", "question_id", "subject", "chapter", "difficulty", "format", "question",
+  "your_answer", "correct_answer", "result", "seconds",
+];
+
+// One row per question, for spreadsheets
+export const serializeAttemptCsv = (attempt: PracticeAttempt): string => {
+  const rows = attempt.questions.map((q, i) => {
+    const answer = attempt.answers[i] ?? null;
+    return [
+      String(i + 1),
+      q.id,
+      attempt.subject,
+      q.chapterId ? chapterName(q.chapterId) : "",
+      q.difficulty ?? "",
+      q.format ?? "MCQ",
+      q.text,
+      answer === null ? "" : formatAnswer(q, answer),
+      formatCorrectAnswer(q),
+      resultLabel(q, answer),
+      String(attempt.timeTaken[i] || 0),
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvCell).join(",")).join("\n");
+};
+
+const reportFileName = (attempt: PracticeAttempt, extension: string) =>
+  `${attempt.subject.toLowerCase()}-report-${new Date(attempt.completedAt).toISOString().slice(0, 10)}.${extension}`;
+
+const downloadText = (content: string, mime: string, fileName: string) => {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadAttemptReport = (attempt: PracticeAttempt, title: string) =>
+  downloadText(buildAttemptReport(attempt, title), "text/html", reportFileName(attempt, "html"));
+
+export const downloadAttemptCsv = (attempt: PracticeAttempt) =>
+  downloadText(serializeAttemptCsv(attempt), "text/csv", reportFileName(attempt, "csv"));
+
+// Opens the report in its own window and brings up the print dialog, where
+// "Save as PDF" gives the PDF. If pop-ups are blocked the HTML is downloaded.
+export const printAttemptReport = (attempt: PracticeAttempt, title: string) => {
+  const win = window.open("", "_blank");
+  if (!win) {
+    downloadAttemptReport(attempt, title);
+    return;
+  }
+  win.document.open();
+  win.document.write(buildAttemptReport(attempt, title));
+  win.document.close();
+  // Wait for the KaTeX stylesheet so the printed math is laid out
+  win.addEventListener("load", () => win.print());
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { McqQuestion } from "../types";
+import { estimateQuestionDifficulty, planBotMove } from "./battleBot";
+
+const question = (extra: Partial<McqQuestion> = {}): McqQuestion => ({
+  id: 'q1',
+  text: 'Short stem',
+  options: ['a', 'b', 'c', 'd'],
+  correctIndex: 1,
+  ...extra,
+});
+
+describe("estimateQuestionDifficulty", () => {
+  it("goes by the question's level where it has one", () => {
+    expect(estimateQuestionDifficulty(question({ difficulty: 'EASY' }))).toBe(0);
+    expect(estimateQuestionDifficulty(question({ difficulty: 'MEDIUM' }))).toBe(0.5);
+    expect(estimateQuestionDifficulty(question({ difficulty: 'HARD' }))).toBe(1);
+  });
+
+  it("falls back to how much there is to read", () => {
+    expect(estimateQuestionDifficulty(question())).toBe(0);
+    expect(estimateQuestionDifficulty(question({ text: 'x'.repeat(400) }))).toBe(1);
+  });
+});
+
+describe("planBotMove", () => {
+  it("takes longer over a hard question than an easy one of the same length", () => {
+    const steady = () => 0.5;
+    const easy = planBotMove(question({ difficulty: 'EASY' }), 'MEDIUM', steady);
+    const hard = planBotMove(question({ difficulty: 'HARD' }), 'MEDIUM', steady);
+    expect(hard.delayMs).toBeGreaterThan(easy.delayMs);
+  });
+});
@@ -0,0 +1,51 @@
+import { BotTier, ChoiceQuestion } from "../types";
+import { BOT_PROFILES, DIFFICULTY_LEVELS } from "../constants";
+import { questionContentText } from "./questionFormat";
+
+const MIN_RESPONSE_MS = 1200;
+
+export interface BotMove {
+  delayMs: number;
+  selectedIndex: number;
+}
+
+// 0-1 difficulty: the question's own level where it has one (EASY 0, MEDIUM
+// 0.5, HARD 1). Untagged questions are judged by how much there is to read;
+// long stems and long options take a human (and so the bot) longer and trip
+// it up more often.
+export const estimateQuestionDifficulty = (question: ChoiceQuestion): number => {
+  const level = DIFFICULTY_LEVELS.findIndex(l => l.id === question.difficulty);
+  if (level >= 0) return level / (DIFFICULTY_LEVELS.length - 1);
+  const length = questionContentText(question).length + question.options.join('').length;
+  return Math.min(1, Math.max(0, (length - 80) / 320));
+};
+
+// Standard normal sample (Box-Muller)
+const gaussian = (random: () => number): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Decide when the bot answers and what it picks. Harder questions shave up to
+// 20 points off its accuracy and stretch its response time by up to 60%.
+export const planBotMove = (
+  question: ChoiceQuestion,
+  tier: BotTier,
+  random: () => number = Math.random
+): BotMove => {
+  const profile = BOT_PROFILES[tier];
+  const difficulty = estimateQuestionDifficulty(question);
+
+  const accuracy = Math.max(0.05, profile.accuracy - 0.2 * difficulty);
+  const meanMs = profile.meanResponseMs * (1 + 0.6 * difficulty);
+  const delayMs = Math.max(MIN_RESPONSE_MS, Math.round(meanMs + gaussian(random) * profile.responseJitterMs));
+
+  let selectedIndex = question.correctIndex;
+  if (random() >= accuracy) {
+    const wrongOptions = question.options.map((_, i) => i).filter(i => i !== question.correctIndex);
+    selectedIndex = wrongOptions[Math.floor(random() * wrongOptions.length)];
+  }
+
+  return { delayMs, selectedIndex };
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { connectToRelay } from "./battleRelayClient";
+
+// Just enough of a browser WebSocket for the client: tests open and drop
+// sockets by hand and read back what was sent
+class FakeSocket {
+  static OPEN = 1;
+  static sockets: FakeSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.sockets.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const handlers = () => ({ onStatus: vi.fn(), onSeat: vi.fn(), onState: vi.fn(), onError: vi.fn() });
+
+describe("connectToRelay", () => {
+  beforeEach(() => {
+    FakeSocket.sockets = [];
+    vi.stubGlobal("WebSocket", FakeSocket);
+    vi.stubGlobal("sessionStorage", { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("still delivers a LEAVE queued while reconnecting when closed", () => {
+    const connection = connectToRelay(handlers(), "ws://relay");
+    const [first] = FakeSocket.sockets;
+    first.open();
+    first.receive({ type: 'SEAT', roomCode: 'ABCD', player: 'P2', sessionId: 's1' });
+    first.close(); // Dropped: the client waits before reconnecting
+
+    connection.send({ type: 'LEAVE' });
+    connection.close();
+
+    const last = FakeSocket.sockets[FakeSocket.sockets.length - 1];
+    expect(last).not.toBe(first);
+    last.open();
+    expect(last.sent).toEqual([{ type: 'RESUME', roomCode: 'ABCD', sessionId: 's1' }, { type: 'LEAVE' }]);
+    expect(last.readyState).toBe(3);
+  });
+
+  it("closes without reconnecting when nothing is left to say", () => {
+    const connection = connectToRelay(handlers(), "ws://relay");
+    const [first] = FakeSocket.sockets;
+    first.open();
+    first.close();
+    connection.close();
+    expect(FakeSocket.sockets).toHaveLength(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { OnlineRoomState, Player, RelayClientMessage, RelayErrorCode, RelayServerMessage } from "../types";
+
+export type RelayConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface RelaySeat {
+  roomCode: string;
+  player: Player;
+  sessionId: string;
+}
+
+interface RelayHandlers {
+  onStatus: (status: RelayConnectionStatus) => void;
+  onSeat: (seat: RelaySeat) => void;
+  onState: (state: OnlineRoomState) => void;
+  onError: (code: RelayErrorCode, message: string) => void;
+}
+
+export interface RelayConnection {
+  send: (message: RelayClientMessage) => void;
+  close: () => void;
+}
+
+// The seat is kept per tab so a refresh can rejoin the same match
+const SEAT_STORAGE_KEY = 'revise-it:battle-seat';
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// BATTLE_RELAY_URL comes from .env.local; by default the relay is expected on
+// the same host as the app, which also covers two devices on one LAN.
+export const getRelayUrl = (): string =>
+  process.env.BATTLE_RELAY_URL || `ws://${window.location.hostname}:8787`;
+
+export const loadSavedSeat = (): RelaySeat | null => {
+  try {
+    const raw = sessionStorage.getItem(SEAT_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const clearSavedSeat = () => sessionStorage.removeItem(SEAT_STORAGE_KEY);
+
+export const connectToRelay = (handlers: RelayHandlers, url: string = getRelayUrl()): RelayConnection => {
+  let socket: WebSocket | null = null;
+  let seat: RelaySeat | null = loadSavedSeat();
+  let closedByUser = false;
+  let retries = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const outbox: RelayClientMessage[] = []; // Messages sent while disconnected
+
+  const open = () => {
+    handlers.onStatus(retries === 0 ? 'connecting' : 'reconnecting');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      retries = 0;
+      if (seat) socket!.send(JSON.stringify({ type: 'RESUME', roomCode: seat.roomCode, sessionId: seat.sessionId }));
+      if (closedByUser) {
+        // Reopened only to deliver the LEAVE queued before close(), once the
+        // RESUME above has put this socket back in its seat
+        socket!.send(JSON.stringify({ type: 'LEAVE' }));
+        socket!.close();
+        return;
+      }
+      handlers.onStatus('open');
+      while (outbox.length > 0) socket!.send(JSON.stringify(outbox.shift()));
+    };
+
+    socket.onmessage = (event) => {
+      if (closedByUser) return;
+      const message = JSON.parse(event.data) as RelayServerMessage;
+      switch (message.type) {
+        case 'SEAT':
+          seat = { roomCode: message.roomCode, player: message.player, sessionId: message.sessionId };
+          sessionStorage.setItem(SEAT_STORAGE_KEY, JSON.stringify(seat));
+          handlers.onSeat(seat);
+          break;
+        case 'STATE':
+          handlers.onState(message.state);
+          break;
+        case 'ERROR':
+          // A stale seat (match over, relay restarted) can't be resumed
+          if (message.code === 'MATCH_ENDED') {
+            seat = null;
+            clearSavedSeat();
+          }
+          handlers.onError(message.code, message.message);
+          break;
+      }
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (closedByUser) {
+        handlers.onStatus('closed');
+        return;
+      }
+      // Exponential backoff, capped
+      const delay = Math.min(MAX_RETRY_DELAY_MS, 500 * 2 ** retries);
+      retries += 1;
+      handlers.onStatus('reconnecting');
+      retryTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      else if (message.type !== 'ANSWER') outbox.push(message); // Stale answers are never replayed
+    },
+    // A LEAVE for a seat that is still waiting in the outbox is delivered
+    // first, with one last connection attempt if need be, so the opponent wins
+    // straight away instead of waiting out the relay's reconnect grace period
+    close: () => {
+      closedByUser = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      if (!seat || !outbox.some(m => m.type === 'LEAVE')) {
+        socket?.close();
+      } else if (!socket) {
+        open();
+      }
+      // Otherwise the socket is still connecting and sends LEAVE once open
+    },
+  };
+};
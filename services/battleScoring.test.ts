@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { scoreBattleAnswer } from "./battleScoring";
+
+describe("scoreBattleAnswer", () => {
+  it("awards a point, plus the speed bonus for quick answers", () => {
+    expect(scoreBattleAnswer('NO_PENALTY', 'P1', true, 8000, true)).toEqual({ deltas: { P1: 1, P2: 0 }, roundWinner: 'P1' });
+    expect(scoreBattleAnswer('NO_PENALTY', 'P2', true, 3000, true)).toEqual({ deltas: { P1: 0, P2: 2 }, roundWinner: 'P2' });
+    expect(scoreBattleAnswer('NO_PENALTY', 'P2', true, 3000, false).deltas.P2).toBe(1);
+  });
+
+  it("applies the rule for wrong answers", () => {
+    expect(scoreBattleAnswer('OPPONENT_GETS_POINT', 'P1', false, 1000, true)).toEqual({ deltas: { P1: 0, P2: 1 }, roundWinner: 'P2' });
+    expect(scoreBattleAnswer('PENALTY_ONLY', 'P1', false, 1000, true)).toEqual({ deltas: { P1: -1, P2: 0 }, roundWinner: null });
+    expect(scoreBattleAnswer('NO_PENALTY', 'P1', false, 1000, true)).toEqual({ deltas: { P1: 0, P2: 0 }, roundWinner: null });
+  });
+});
@@ -0,0 +1,38 @@
+import { Player, ScoringRule } from "../types";
+import { SPEED_BONUS_SECONDS } from "../constants";
+
+export interface RoundOutcome {
+  deltas: Record<Player, number>;
+  roundWinner: Player | null;
+}
+
+export const otherPlayer = (player: Player): Player => (player === 'P1' ? 'P2' : 'P1');
+
+// Score a single answer under the chosen rule set. The first answer of a
+// round always ends it, right or wrong.
+export const scoreBattleAnswer = (
+  rule: ScoringRule,
+  player: Player,
+  isCorrect: boolean,
+  reactionMs: number,
+  speedBonus: boolean
+): RoundOutcome => {
+  const deltas: Record<Player, number> = { P1: 0, P2: 0 };
+
+  if (isCorrect) {
+    const bonus = speedBonus && reactionMs <= SPEED_BONUS_SECONDS * 1000 ? 1 : 0;
+    deltas[player] = 1 + bonus;
+    return { deltas, roundWinner: player };
+  }
+
+  switch (rule) {
+    case 'OPPONENT_GETS_POINT':
+      deltas[otherPlayer(player)] = 1;
+      return { deltas, roundWinner: otherPlayer(player) };
+    case 'PENALTY_ONLY':
+      deltas[player] = -1;
+      return { deltas, roundWinner: null };
+    case 'NO_PENALTY':
+      return { deltas, roundWinner: null };
+  }
+};
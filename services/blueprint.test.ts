@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BankQuestion, PracticeConfig, Subject } from "../types";
+import {
+  blueprintTotal, buildBlueprint, generateFromBlueprint, manualBlueprint, sliceBlueprint, weightageBlueprint,
+} from "./blueprint";
+import { createFakeQuestionProvider } from "./fakeQuestionProvider";
+import { createLocalQuestionProvider } from "./localQuestionBank";
+import { getQuestionProvider } from "./questionProvider";
+import { topicIdsForChapters } from "./syllabus";
+
+// The real module wraps providers with vetted corrections, which need IndexedDB
+vi.mock("./questionProvider", () => ({ getQuestionProvider: vi.fn() }));
+
+describe("weightageBlueprint", () => {
+  it("splits in proportion to chapter weightage", () => {
+    expect(weightageBlueprint(['phy_1', 'phy_3', 'phy_4'], 9)).toEqual([
+      { chapterId: 'phy_1', count: 2 },
+      { chapterId: 'phy_3', count: 3 },
+      { chapterId: 'phy_4', count: 4 },
+    ]);
+  });
+
+  it("gives the leftover questions to the largest remainders", () => {
+    const blueprint = weightageBlueprint(['phy_1', 'phy_3', 'phy_4'], 10);
+    expect(blueprint.map(e => e.count)).toEqual([2, 3, 5]);
+    expect(blueprintTotal(blueprint)).toBe(10);
+  });
+
+  it("always adds up to the requested total", () => {
+    for (const total of [1, 7, 30, 45]) {
+      expect(blueprintTotal(weightageBlueprint(['phy_1', 'phy_2', 'phy_5', 'phy_6', 'phy_7'], total))).toBe(total);
+    }
+  });
+});
+
+describe("manualBlueprint and buildBlueprint", () => {
+  it("takes the manual split, ignoring bad counts", () => {
+    expect(manualBlueprint(['phy_1', 'phy_2', 'phy_3'], { phy_1: 3, phy_2: -2, phy_3: 1.7 })).toEqual([
+      { chapterId: 'phy_1', count: 3 },
+      { chapterId: 'phy_2', count: 0 },
+      { chapterId: 'phy_3', count: 1 },
+    ]);
+  });
+
+  it("leaves out chapters with nothing to ask", () => {
+    const blueprint = buildBlueprint({
+      subject: Subject.PHYSICS,
+      topicIds: ['phy_1.1', 'phy_2.1'],
+      questionCount: 10,
+      difficulty: 'MEDIUM',
+      blueprintMode: 'MANUAL',
+      manualSplit: { phy_1: 4 },
+    });
+    expect(blueprint).toEqual([{ chapterId: 'phy_1', count: 4 }]);
+  });
+});
+
+describe("sliceBlueprint", () => {
+  const blueprint = [{ chapterId: 'a', count: 3 }, { chapterId: 'b', count: 1 }, { chapterId: 'c', count: 2 }];
+
+  it("deals chapters in turn", () => {
+    expect(sliceBlueprint(blueprint, 0, 3)).toEqual([
+      { chapterId: 'a', count: 1 },
+      { chapterId: 'b', count: 1 },
+      { chapterId: 'c', count: 1 },
+    ]);
+  });
+
+  it("covers the whole blueprint across consecutive slices", () => {
+    const slices = [0, 2, 4].map(start => sliceBlueprint(blueprint, start, 2));
+    const counts: Record<string, number> = {};
+    slices.flat().forEach(e => { counts[e.chapterId] = (counts[e.chapterId] ?? 0) + e.count; });
+    expect(counts).toEqual({ a: 3, b: 1, c: 2 });
+    expect(sliceBlueprint(blueprint, 6, 2)).toEqual([]);
+  });
+});
+
+describe("generateFromBlueprint", () => {
+  const TOPICS = ['units', 'vectors', 'friction', 'momentum', 'torque', 'gravity', 'elasticity', 'viscosity'];
+  const bank: BankQuestion[] = TOPICS.map((topic, i) => ({
+    id: `bank-${i}`,
+    subject: Subject.PHYSICS,
+    chapterId: 'phy_1',
+    text: `Which statement about ${topic} holds?`,
+    options: ['First', 'Second', 'Third', 'Fourth'],
+    correctIndex: i % 4,
+    explanation: `Because of ${topic}.`,
+  }));
+  const config: PracticeConfig = { subject: Subject.PHYSICS, topicIds: [], questionCount: 8, difficulty: 'MEDIUM' };
+
+  beforeEach(() => {
+    vi.mocked(getQuestionProvider).mockReturnValue(createLocalQuestionProvider(bank));
+  });
+
+  it("doesn't ask a later batch what an earlier one did", async () => {
+    const first = await generateFromBlueprint(config, [{ chapterId: 'phy_1', count: 5 }]);
+    const second = await generateFromBlueprint(config, [{ chapterId: 'phy_1', count: 5 }], {}, first);
+    expect(first).toHaveLength(5);
+    expect(second).toHaveLength(3);
+    expect(new Set([...first, ...second].map(q => q.id)).size).toBe(8);
+  });
+
+  it("leaves out questions reworded from ones already asked", async () => {
+    const asked = { ...bank[0], id: 'elsewhere', text: 'Which statement about units holds true?' };
+    const questions = await generateFromBlueprint(config, [{ chapterId: 'phy_1', count: 8 }], {}, [asked]);
+    expect(questions.map(q => q.id)).not.toContain('bank-0');
+    expect(questions).toHaveLength(7);
+  });
+
+  it("tops up a chapter when the provider repeats itself", async () => {
+    const fake = createFakeQuestionProvider();
+    const calls: number[] = [];
+    // Ignores what it is told to exclude, like a model that repeats itself
+    vi.mocked(getQuestionProvider).mockReturnValue({
+      ...fake,
+      generatePracticeQuestions: (subject, topicIds, count, customPrompt, difficulty, options = {}) => {
+        calls.push(count);
+        return fake.generatePracticeQuestions(subject, topicIds, count, customPrompt, difficulty, {
+          ...options, exclude: calls.length > 1 ? options.exclude : [],
+        });
+      },
+    });
+    const existing = await fake.generatePracticeQuestions(Subject.PHYSICS, topicIdsForChapters(['phy_1']), 2);
+    const questions = await generateFromBlueprint(config, [{ chapterId: 'phy_1', count: 4 }], {}, existing);
+    expect(calls).toEqual([4, 2]);
+    expect(questions).toHaveLength(4);
+    expect(questions.some(q => existing.some(e => e.id === q.id))).toBe(false);
+  });
+
+  it("tags every question with its chapter, with no clashing ids", async () => {
+    vi.mocked(getQuestionProvider).mockReturnValue(createFakeQuestionProvider());
+    const questions = await generateFromBlueprint(config, [{ chapterId: 'phy_1', count: 3 }, { chapterId: 'phy_2', count: 2 }]);
+    expect(questions.map(q => q.chapterId)).toEqual(['phy_1', 'phy_1', 'phy_1', 'phy_2', 'phy_2']);
+    expect(new Set(questions.map(q => q.id)).size).toBe(5);
+  });
+
+  it("requests a few chapters at a time and only ever grows the reported set", async () => {
+    const fake = createFakeQuestionProvider({ delayMs: 20 });
+    let inFlight = 0;
+    let mostInFlight = 0;
+    vi.mocked(getQuestionProvider).mockReturnValue({
+      ...fake,
+      generatePracticeQuestions: async (...args) => {
+        mostInFlight = Math.max(mostInFlight, ++inFlight);
+        try {
+          return await fake.generatePracticeQuestions(...args);
+        } finally {
+          inFlight--;
+        }
+      },
+    });
+    const reported: string[][] = [];
+    const blueprint = ['phy_1', 'phy_2', 'phy_3', 'phy_4', 'phy_5'].map(chapterId => ({ chapterId, count: 2 }));
+    const questions = await generateFromBlueprint(config, blueprint, { onProgress: ready => reported.push(ready.map(q => q.id)) });
+
+    expect(questions).toHaveLength(10);
+    expect(mostInFlight).toBe(3);
+    reported.forEach((ids, i) => {
+      if (i > 0) expect(ids.slice(0, reported[i - 1].length)).toEqual(reported[i - 1]);
+    });
+  });
+});
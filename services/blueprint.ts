@@ -0,0 +1,133 @@
+import { BlueprintEntry, GenerationOptions, PracticeConfig, Question, Subject } from "../types";
+import { getQuestionProvider } from "./questionProvider";
+import { CancelledError, GenerationError } from "./generationErrors";
+import { isRepeat } from "./questionQuality";
+import { chapterIdsForTopics, findChapter, getChapters, topicIdsForChapters } from "./syllabus";
+
+// A blueprint says how many questions each chapter contributes. Every chapter
+// is generated on its own, so the split doesn't depend on the model spreading
+// a mixed prompt evenly, and each question knows which chapter it came from.
+
+// Largest-remainder split of `total` in proportion to `weights`
+const apportion = (weights: number[], total: number): number[] => {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum <= 0) return weights.map(() => 0);
+  const exact = weights.map(w => (w / sum) * total);
+  const counts = exact.map(Math.floor);
+  let left = total - counts.reduce((a, b) => a + b, 0);
+  exact
+    .map((value, i) => ({ i, remainder: value - counts[i] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ i }) => {
+      if (left > 0) { counts[i]++; left--; }
+    });
+  return counts;
+};
+
+// Chapters a config draws from; no topic selection means the whole subject
+export const blueprintChapterIds = (subject: Subject, topicIds: string[]): string[] =>
+  topicIds.length > 0 ? chapterIdsForTopics(topicIds) : getChapters(subject).map(c => c.id);
+
+export const weightageBlueprint = (chapterIds: string[], total: number): BlueprintEntry[] => {
+  const counts = apportion(chapterIds.map(id => findChapter(id)?.chapter.weightage ?? 0), total);
+  return chapterIds.map((chapterId, i) => ({ chapterId, count: counts[i] }));
+};
+
+export const manualBlueprint = (chapterIds: string[], split: Record<string, number>): BlueprintEntry[] =>
+  chapterIds.map(chapterId => ({ chapterId, count: Math.max(0, Math.floor(split[chapterId] ?? 0)) }));
+
+// Chapters with nothing to ask are left out
+export const buildBlueprint = (config: PracticeConfig): BlueprintEntry[] => {
+  const chapterIds = blueprintChapterIds(config.subject, config.topicIds);
+  const entries = config.blueprintMode === 'MANUAL'
+    ? manualBlueprint(chapterIds, config.manualSplit ?? {})
+    : weightageBlueprint(chapterIds, config.questionCount);
+  return entries.filter(e => e.count > 0);
+};
+
+export const blueprintTotal = (blueprint: BlueprintEntry[]) => blueprint.reduce((sum, e) => sum + e.count, 0);
+
+// Questions `start` to `start + count` of a blueprint, for generating it in
+// batches. Chapters take turns, so every batch mixes them.
+export const sliceBlueprint = (blueprint: BlueprintEntry[], start: number, count: number): BlueprintEntry[] => {
+  const left = blueprint.map(e => e.count);
+  const order: string[] = [];
+  while (order.length < blueprintTotal(blueprint)) {
+    blueprint.forEach((e, i) => {
+      if (left[i] > 0) { order.push(e.chapterId); left[i]--; }
+    });
+  }
+  const picked = order.slice(start, start + count);
+  return blueprint
+    .map(e => ({ chapterId: e.chapterId, count: picked.filter(id => id === e.chapterId).length }))
+    .filter(e => e.count > 0);
+};
+
+// Chapters requested at once; more would just queue behind the rate limit
+const CHAPTER_CONCURRENCY = 3;
+// Extra requests for a chapter whose reply was partly questions already asked
+const MAX_TOP_UPS = 2;
+
+// Generates a few chapters at a time, reporting the growing set through
+// onProgress. A chapter that fails is skipped; the error only surfaces if
+// nothing was generated at all, or stops the run if retrying can't help.
+// `existing` are questions already in the quiz: they, and other chapters'
+// questions, are not asked again, and a chapter is topped up for any repeats
+// dropped. Questions are appended as they arrive, whichever chapter they are
+// from, so the reported set only ever grows.
+export const generateFromBlueprint = async (
+  config: PracticeConfig,
+  blueprint: BlueprintEntry[],
+  options: GenerationOptions = {},
+  existing: Question[] = []
+): Promise<Question[]> => {
+  const questions: Question[] = [];
+  let lastError: unknown = null;
+  let stopped = false;
+
+  const generateChapter = async ({ chapterId, count }: BlueprintEntry) => {
+    const chapterTopics = topicIdsForChapters([chapterId]);
+    const picked = config.topicIds.filter(id => chapterTopics.includes(id));
+    let added = 0;
+    // Takes whatever in `ready` is new; streamed sets repeat earlier questions, which are skipped by id
+    const take = (ready: Question[]) => {
+      const before = added;
+      ready.forEach(q => {
+        if (added >= count || isRepeat(q, [...existing, ...questions])) return;
+        questions.push({ ...q, chapterId });
+        added++;
+      });
+      if (added > before) options.onProgress?.([...questions]);
+    };
+
+    try {
+      for (let round = 0; round <= MAX_TOP_UPS && added < count; round++) {
+        const before = added;
+        const batch = await getQuestionProvider().generatePracticeQuestions(
+          config.subject,
+          picked.length > 0 ? picked : chapterTopics,
+          count - added,
+          config.customPrompt,
+          config.difficulty,
+          { ...options, exclude: [...existing, ...questions], onProgress: take }
+        );
+        take(batch);
+        if (added === before) break;
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      console.error(`Skipping chapter ${chapterId}:`, error);
+      lastError = error;
+      if (error instanceof GenerationError && !error.retryable) stopped = true;
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (!stopped && next < blueprint.length) await generateChapter(blueprint[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(CHAPTER_CONCURRENCY, blueprint.length) }, worker));
+
+  if (questions.length === 0 && lastError) throw lastError;
+  return questions;
+};
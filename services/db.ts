@@ -0,0 +1,65 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every persisted feature gets its own object store keyed by `id`.
+
+const DB_NAME = 'revise-it';
+const DB_VERSION = 4;
+
+export const STORES = {
+  ATTEMPTS: 'attempts',
+  REVIEW_CARDS: 'reviewCards',
+  CURATED_QUESTIONS: 'curatedQuestions',
+  DECKS: 'decks',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putRecord = <T extends { id: string }>(store: StoreName, record: T): Promise<void> =>
+  runRequest<IDBValidKey>(store, 'readwrite', s => s.put(record)).then(() => undefined);
+
+export const getRecord = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const deleteRecord = (store: StoreName, id: string): Promise<void> =>
+  runRequest<undefined>(store, 'readwrite', s => s.delete(id)).then(() => undefined);
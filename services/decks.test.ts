@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ChoiceQuestion, Subject } from "../types";
+import { createDeck, getDecks, toggleDeckQuestion } from "./decks";
+
+// In-memory stand-in for the IndexedDB stores
+const records = new Map<string, unknown>();
+vi.mock("./db", () => ({
+  STORES: { DECKS: 'decks' },
+  putRecord: async (_store: string, record: { id: string }) => { records.set(record.id, structuredClone(record)); },
+  getRecord: async (_store: string, id: string) => structuredClone(records.get(id)),
+  getAllRecords: async () => [...records.values()].map(record => structuredClone(record)),
+  deleteRecord: async (_store: string, id: string) => { records.delete(id); },
+}));
+
+const question = (id: string): ChoiceQuestion => ({ id, text: `Question ${id}`, options: ['a', 'b', 'c', 'd'], correctIndex: 0 });
+
+describe("toggleDeckQuestion", () => {
+  beforeEach(() => records.clear());
+
+  it("keeps bookmarks made from another card with an older copy of the deck", async () => {
+    const deck = await createDeck('Formulas');
+    // Two cards loaded the empty deck; each bookmarks its own question
+    await toggleDeckQuestion(deck, question('q1'), Subject.PHYSICS);
+    await toggleDeckQuestion(deck, question('q2'), Subject.PHYSICS);
+    const [stored] = await getDecks();
+    expect(stored.entries.map(entry => entry.question.id)).toEqual(['q1', 'q2']);
+  });
+
+  it("removes a question the stored deck already has", async () => {
+    const deck = await createDeck('Formulas');
+    await toggleDeckQuestion(deck, question('q1'), Subject.PHYSICS);
+    const updated = await toggleDeckQuestion(deck, question('q1'), Subject.PHYSICS);
+    expect(updated.entries).toEqual([]);
+  });
+});
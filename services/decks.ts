@@ -0,0 +1,64 @@
+import { ChoiceQuestion, Deck, Question, Subject } from "../types";
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from "./db";
+import { isChoiceQuestion } from "./questionFormat";
+
+export const getDecks = async (): Promise<Deck[]> => {
+  try {
+    const decks = await getAllRecords<Deck>(STORES.DECKS);
+    return decks.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Failed to load decks:", error);
+    return [];
+  }
+};
+
+const loadDeck = async (deckId: string): Promise<Deck | undefined> => {
+  try {
+    return await getRecord<Deck>(STORES.DECKS, deckId);
+  } catch (error) {
+    console.error("Failed to load deck:", error);
+    return undefined;
+  }
+};
+
+const saveDeck = async (deck: Deck): Promise<Deck> => {
+  try {
+    await putRecord(STORES.DECKS, deck);
+  } catch (error) {
+    console.error("Failed to save deck:", error);
+  }
+  return deck;
+};
+
+export const createDeck = (name: string): Promise<Deck> => {
+  const now = Date.now();
+  return saveDeck({ id: `deck-${now}`, name: name.trim(), entries: [], createdAt: now });
+};
+
+export const deleteDeck = async (deckId: string): Promise<void> => {
+  try {
+    await deleteRecord(STORES.DECKS, deckId);
+  } catch (error) {
+    console.error("Failed to delete deck:", error);
+  }
+};
+
+export const isInDeck = (deck: Deck, questionId: string): boolean =>
+  deck.entries.some(entry => entry.question.id === questionId);
+
+// Bookmark toggle: adds the question, or removes it if the deck already has
+// it. Starts from the stored deck, as `deck` may be a copy from before another
+// card changed it.
+export const toggleDeckQuestion = async (deck: Deck, question: Question, subject: Subject): Promise<Deck> => {
+  const current = (await loadDeck(deck.id)) ?? deck;
+  return saveDeck({
+    ...current,
+    entries: isInDeck(current, question.id)
+      ? current.entries.filter(entry => entry.question.id !== question.id)
+      : [...current.entries, { question, subject, addedAt: Date.now() }],
+  });
+};
+
+// Battles are buzzer rounds, so only option-based questions make the set
+export const deckBattleQuestions = (deck: Deck): ChoiceQuestion[] =>
+  deck.entries.map(entry => entry.question).filter(isChoiceQuestion);
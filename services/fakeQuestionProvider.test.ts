@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { Subject, TutorMessage } from "../types";
+import { createFakeQuestionProvider } from "./fakeQuestionProvider";
+import { isChoiceQuestion } from "./questionFormat";
+
+const student = (text: string): TutorMessage => ({ role: 'student', text, sentAt: 0 });
+const tutor = (text: string): TutorMessage => ({ role: 'tutor', text, sentAt: 0 });
+
+describe("fake provider tutor", () => {
+  const provider = createFakeQuestionProvider();
+
+  it("numbers its replies and echoes the latest question", async () => {
+    const [question] = await provider.generatePracticeQuestions(Subject.PHYSICS, [], 1);
+    const messages = [student("Why A?"), tutor("Because."), student("And why not B?")];
+    const reply = await provider.askTutor(question, 0, messages);
+    expect(reply).toBe('Tutor reply 2: Your answer was correct. You asked: "And why not B?"');
+  });
+
+  it("gives the key when the student's answer was wrong", async () => {
+    const [, question] = await provider.generatePracticeQuestions(Subject.PHYSICS, [], 2);
+    const reply = await provider.askTutor(question, 0, [student("Where did I go wrong?")]);
+    expect(reply).toContain("The correct answer is B.");
+  });
+
+  it("is deterministic", async () => {
+    const [question] = await provider.generatePracticeQuestions(Subject.BOTANY, [], 1);
+    const messages = [student("Explain")];
+    expect(await provider.askTutor(question, null, messages)).toBe(await provider.askTutor(question, null, messages));
+  });
+});
+
+describe("fake provider generation", () => {
+  it("streams practice questions one at a time", async () => {
+    const seen: number[] = [];
+    const questions = await createFakeQuestionProvider().generatePracticeQuestions(
+      Subject.CHEMISTRY, [], 5, undefined, 'HARD', { onProgress: ready => seen.push(ready.length) }
+    );
+    expect(seen).toEqual([1, 2, 3, 4, 5]);
+    expect(questions.every(q => q.difficulty === 'HARD')).toBe(true);
+    expect(questions.map(q => q.format)).toEqual(['MCQ', 'ASSERTION_REASON', 'MATCH', 'STATEMENTS', 'NUMERIC']);
+  });
+
+  it("only gives battles option-based questions", async () => {
+    const questions = await createFakeQuestionProvider().generateBattleQuestions(Subject.PHYSICS, [], 8);
+    expect(questions).toHaveLength(8);
+    expect(questions.every(isChoiceQuestion)).toBe(true);
+  });
+});
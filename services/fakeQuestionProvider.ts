@@ -0,0 +1,101 @@
+import { Question, QuestionFormat, QuestionProvider, Subject } from "../types";
+import { ASSERTION_REASON_OPTIONS } from "../constants";
+import { formatCorrectAnswer, isAnswerCorrect, isChoiceQuestion } from "./questionFormat";
+import { describeScope } from "./syllabus";
+
+interface FakeProviderOptions {
+  // Simulated network latency, so loading states can be exercised
+  delayMs?: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeTopic = (subject: Subject, topicIds: string[]) => {
+  const scope = describeScope(subject, topicIds);
+  return scope.length > 0 ? `${subject}: ${scope.join(', ')}` : subject;
+};
+
+const OPTIONS = ['Option A', 'Option B', 'Option C', 'Option D'];
+
+// Deterministic questions: the same inputs always give the same set, and the
+// correct answer for question i is always option i % 4 (or the value i for a
+// numeric question). Practice sets cycle through every format so each layout
+// can be exercised and carry the requested difficulty; battle sets only use
+// the option-based ones. The topic goes in the explanation and every line is
+// numbered, so no two questions look like near-duplicates to the quality filter.
+// Each topic numbers from its own offset (a multiple of 4, so the key pattern
+// holds), which keeps chapters generated side by side from colliding.
+const buildQuestion = (i: number, prefix: string, topic: string, format: QuestionFormat): Question => {
+  const n = i + 1;
+  const base = {
+    id: `${prefix}-${i}`,
+    text: `Sample question ${n}`,
+    explanation: format === 'NUMERIC'
+      ? `[${topic}] The correct answer is ${i}.`
+      : `[${topic}] The correct answer is option ${String.fromCharCode(65 + (i % 4))}.`,
+  };
+  const choice = { ...base, options: OPTIONS, correctIndex: i % 4 };
+  switch (format) {
+    case 'ASSERTION_REASON':
+      return { ...choice, format, assertion: `Sample assertion ${n}`, reason: `Sample reason ${n}`, options: ASSERTION_REASON_OPTIONS };
+    case 'MATCH':
+      return { ...choice, format, columnA: ['a', 'b', 'c', 'd'].map(k => `Item ${n}${k}`), columnB: ['p', 'q', 'r', 's'].map(k => `Match ${n}${k}`) };
+    case 'STATEMENTS':
+      return { ...choice, format, statements: ['a', 'b', 'c'].map(k => `Statement ${n}${k}`), options: ['0', '1', '2', '3'] };
+    case 'NUMERIC':
+      return { ...base, format, answer: i };
+    default:
+      return { ...choice, format: 'MCQ' };
+  }
+};
+
+const PRACTICE_FORMATS: QuestionFormat[] = ['MCQ', 'ASSERTION_REASON', 'MATCH', 'STATEMENTS', 'NUMERIC'];
+const BATTLE_FORMATS: QuestionFormat[] = ['MCQ', 'ASSERTION_REASON', 'MATCH', 'STATEMENTS'];
+
+const topicOffset = (topic: string) =>
+  [...topic].reduce((hash, c) => (hash * 31 + c.charCodeAt(0)) % 997, 0) * 1000;
+
+// Questions from the topic's offset up, skipping excluded ones (same id or text), until there are `count`
+const buildQuestions = (count: number, prefix: string, topic: string, formats: QuestionFormat[], exclude: Question[] = []): Question[] => {
+  const questions: Question[] = [];
+  const offset = topicOffset(topic);
+  for (let i = 0; questions.length < count; i++) {
+    const q = buildQuestion(offset + i, prefix, topic, formats[i % formats.length]);
+    if (!exclude.some(other => other.id === q.id || other.text === q.text)) questions.push(q);
+  }
+  return questions;
+};
+
+export const createFakeQuestionProvider = ({ delayMs = 0 }: FakeProviderOptions = {}): QuestionProvider => ({
+  id: 'fake',
+  generateBattleQuestions: async (subject: Subject, topicIds: string[], count: number) => {
+    if (delayMs) await wait(delayMs);
+    return buildQuestions(count, 'fake-battle', describeTopic(subject, topicIds), BATTLE_FORMATS).filter(isChoiceQuestion);
+  },
+  generatePracticeQuestions: async (subject, topicIds, count, _customPrompt, difficulty, { onProgress, exclude, choiceOnly } = {}) => {
+    const formats = choiceOnly ? BATTLE_FORMATS : PRACTICE_FORMATS;
+    const questions = buildQuestions(count, 'fake-practice', describeTopic(subject, topicIds), formats, exclude)
+      .map(q => ({ ...q, difficulty }));
+    if (!onProgress) {
+      if (delayMs) await wait(delayMs);
+      return questions;
+    }
+    // Reveal the set one question at a time, like a streamed response
+    for (let i = 1; i <= questions.length; i++) {
+      if (delayMs) await wait(delayMs / questions.length);
+      onProgress(questions.slice(0, i));
+    }
+    return questions;
+  },
+  // Canned but deterministic: numbers its replies and echoes the last question
+  askTutor: async (question, answer, messages) => {
+    if (delayMs) await wait(delayMs);
+    const asked = messages.filter(m => m.role === 'student');
+    const verdict = isAnswerCorrect(question, answer)
+      ? 'Your answer was correct.'
+      : `The correct answer is ${formatCorrectAnswer(question)}.`;
+    return `Tutor reply ${asked.length}: ${verdict} You asked: "${asked[asked.length - 1]?.text ?? ''}"`;
+  },
+});
+
+export const fakeQuestionProvider = createFakeQuestionProvider();
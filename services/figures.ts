@@ -0,0 +1,38 @@
+import { Figure, FigureKind } from "../types";
+
+// Figures are always shown through an <img>, SVG included: browsers don't run
+// scripts inside images, so markup from an imported pack can't do any harm.
+
+const FIGURE_KINDS: FigureKind[] = ['SVG', 'ASSET', 'DATA_URI'];
+const DATA_URI_PATTERN = /^data:image\/(png|jpe?g|gif|webp|svg\+xml)[;,]/i;
+const URL_SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+
+export const figureSrc = (figure: Figure): string =>
+  figure.kind === 'SVG'
+    ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(figure.source.trim())}`
+    : figure.source;
+
+// Why a value can't be used as a figure, or null if it can. Assets must be
+// paths inside the app (no remote URLs), so packs work offline.
+export const getFigureError = (raw: any): string | null => {
+  if (!raw || typeof raw !== 'object') return 'Figure must be an object with a kind and a source.';
+  if (!FIGURE_KINDS.includes(raw.kind)) return `Unknown figure kind "${String(raw.kind)}".`;
+  if (typeof raw.source !== 'string' || !raw.source.trim()) return 'Figure source is required.';
+  if (raw.alt !== undefined && typeof raw.alt !== 'string') return 'Figure alt text must be text.';
+
+  const source = raw.source.trim();
+  switch (raw.kind as FigureKind) {
+    case 'SVG':
+      return /^(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(source) && /<\/svg>$/i.test(source)
+        ? null
+        : 'SVG figures must contain a single <svg> element.';
+    case 'DATA_URI':
+      return DATA_URI_PATTERN.test(source) ? null : 'Data URI figures must be data:image/ URIs.';
+    case 'ASSET':
+      return URL_SCHEME_PATTERN.test(source) || source.split('/').includes('..')
+        ? 'Asset figures must be a path inside the app, not a URL.'
+        : null;
+  }
+};
+
+export const isValidFigure = (raw: unknown): raw is Figure => getFigureError(raw) === null;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { cleanAndParseJSON, createArrayStreamParser, toGenerationError } from "./geminiService";
+import { NetworkError, ParseError } from "./generationErrors";
+
+describe("createArrayStreamParser", () => {
+  it("returns each object once its closing brace arrives", () => {
+    const parse = createArrayStreamParser();
+    expect(parse('[{"question": "One", "options": ["a", "b"]')).toEqual([]);
+    expect(parse('}, {"question": "Tw')).toEqual([{ question: 'One', options: ['a', 'b'] }]);
+    expect(parse('o"}]')).toEqual([{ question: 'Two' }]);
+  });
+
+  it("ignores braces and escaped quotes inside strings", () => {
+    const parse = createArrayStreamParser();
+    const objects = parse('[{"question": "Find $\\\\frac{a}{b}$ for \\"x}\\""}, {"nested": {"deep": 1}}]');
+    expect(objects).toEqual([{ question: 'Find $\\frac{a}{b}$ for "x}"' }, { nested: { deep: 1 } }]);
+  });
+
+  it("skips an object that is not valid JSON and carries on", () => {
+    const parse = createArrayStreamParser();
+    expect(parse('[{"a": tru}, {"b": 2}]')).toEqual([{ b: 2 }]);
+  });
+});
+
+describe("cleanAndParseJSON", () => {
+  it("finds the array inside markdown fences", () => {
+    expect(cleanAndParseJSON('```json\n[{"question": "x"}]\n```')).toEqual([{ question: 'x' }]);
+  });
+
+  it("finds the array inside surrounding prose", () => {
+    expect(cleanAndParseJSON('Here you go: [{"question": "x"}] Good luck!')).toEqual([{ question: 'x' }]);
+  });
+
+  it("treats an empty reply as no questions", () => {
+    expect(cleanAndParseJSON('  ')).toEqual([]);
+  });
+
+  it("throws a ParseError for unreadable text", () => {
+    expect(() => cleanAndParseJSON('not json')).toThrow(ParseError);
+  });
+
+  it("throws a ParseError when the reply is an object, not an array", () => {
+    expect(() => cleanAndParseJSON('{"question": "x", "options": []}')).toThrow(ParseError);
+  });
+});
+
+describe("toGenerationError", () => {
+  it("treats failed requests as network errors", () => {
+    expect(toGenerationError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+    expect(toGenerationError(new TypeError('NetworkError when attempting to fetch resource.'))).toBeInstanceOf(NetworkError);
+    expect(toGenerationError(new TypeError('Load failed'))).toBeInstanceOf(NetworkError);
+  });
+
+  it("leaves programming errors as they are, so they are not retried", () => {
+    const bug = new TypeError("Cannot read properties of undefined (reading 'map')");
+    expect(toGenerationError(bug)).toBe(bug);
+  });
+});
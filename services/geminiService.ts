@@ -1,226 +1,440 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Question, Subject } from "../types";
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { ChoiceQuestion, Difficulty, GenerationOptions, Question, QuestionProvider, Subject, TutorMessage } from "../types";
+import { ASSERTION_REASON_OPTIONS, DIFFICULTY_LEVELS } from "../constants";
+import { collectQualityQuestions } from "./questionQuality";
+import { sanitizeLatex } from "./latex";
+import { isChoiceQuestion } from "./questionFormat";
+import { describeScope } from "./syllabus";
+import { describeTutorContext } from "./tutor";
+import {
+  AuthError,
+  CancelledError,
+  GenerationError,
+  NetworkError,
+  ParseError,
+  RateLimitError,
+  retryWithBackoff,
+} from "./generationErrors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the app can boot (and other providers can run)
+// without a Gemini key.
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new AuthError('No Gemini API key is configured.');
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
+
+// fetch() rejects with a TypeError when the request can't be made (offline,
+// DNS, CORS); the wording differs per browser. Other TypeErrors are bugs.
+const isRequestFailure = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+// Maps SDK and fetch failures onto the typed errors callers understand
+export const toGenerationError = (error: unknown): Error => {
+  if (error instanceof GenerationError) return error;
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403) return new AuthError();
+    if (error.status === 400 && /api key/i.test(error.message)) return new AuthError();
+    if (error.status === 429) return new RateLimitError();
+    if (error.status >= 500) return new NetworkError(`Gemini returned HTTP ${error.status}.`);
+    return new GenerationError(error.message, false);
+  }
+  if (error instanceof Error && error.name === 'AbortError') return new CancelledError();
+  if (isRequestFailure(error)) return new NetworkError();
+  return error instanceof Error ? error : new GenerationError(String(error), false);
+};
 
+// One flat object covers every format; which fields are filled depends on
+// `format` and normalizeQuestion turns it into the matching Question variant.
 const RESPONSE_SCHEMA = {
   type: Type.ARRAY,
   items: {
     type: Type.OBJECT,
     properties: {
+      format: { type: Type.STRING, enum: ["MCQ", "ASSERTION_REASON", "MATCH", "STATEMENTS", "NUMERIC"] },
       question: { type: Type.STRING },
+      assertion: { type: Type.STRING },
+      reason: { type: Type.STRING },
+      columnA: { type: Type.ARRAY, items: { type: Type.STRING } },
+      columnB: { type: Type.ARRAY, items: { type: Type.STRING } },
+      statements: { type: Type.ARRAY, items: { type: Type.STRING } },
       options: {
         type: Type.ARRAY,
         items: { type: Type.STRING },
       },
       correctIndex: { type: Type.INTEGER },
+      numericAnswer: { type: Type.NUMBER },
+      tolerance: { type: Type.NUMBER },
+      unit: { type: Type.STRING },
       explanation: { type: Type.STRING },
+      difficulty: { type: Type.STRING, enum: ["EASY", "MEDIUM", "HARD"] },
     },
-    required: ["question", "options", "correctIndex"],
+    required: ["format", "question"],
   },
 };
 
-// 1. First, fix common broken latex patterns from JSON responses
-// e.g. "20 ext{ N}" -> "20 \text{ N}"
-const repairMalformedLatex = (text: string): string => {
-  if (!text) return "";
-  let t = text
-    .replace(/(\s|^)ext\{/g, '$1\\text{')
-    .replace(/(\s|^)frac\{/g, '$1\\frac{')
-    .replace(/(\s|^)sqrt\{/g, '$1\\sqrt{')
-    .replace(/(\s|^)times(\s|$)/g, '$1\\times$2')
-    .replace(/(\s|^)mu(\s|$)/g, '$1\\mu$2')
-    .replace(/(\s|^)pi(\s|$)/g, '$1\\pi$2')
-    .replace(/(\s|^)theta(\s|$)/g, '$1\\theta$2');
-    
-  // Ensure content inside $...$ doesn't have broken backslashes if strictly keeping it
-  t = t.replace(/\$([^\$]+)\$/g, (match, content) => {
-      return `$${content}$`;
-  });
-  return t;
-};
+const FORMAT_INSTRUCTIONS = `
+      Question formats (set "format" on every question):
+      - MCQ: "options" (4 distinct strings) and "correctIndex" (0-3).
+      - ASSERTION_REASON: "assertion", "reason", "correctIndex" (0-3) into the standard NEET options:
+        0 = both true and R explains A, 1 = both true but R does not explain A, 2 = A true R false, 3 = A false R true.
+      - MATCH: "columnA" and "columnB" (4 items each), "options" (4 distinct pairings like "A-II, B-I, C-IV, D-III") and "correctIndex".
+      - STATEMENTS: "statements" (3-5 items), a question such as "How many of the above statements are correct?",
+        "options" (4 distinct strings) and "correctIndex".`;
 
-// 2. Then, apply the user's "Human Readable" conversion logic
-// This effectively strips LaTeX formatting for simple text reading
-const latexToSimple = (text: string): string => {
-  if (!text) return "";
-  let t = text;
-
-  // Remove math-mode $
-  t = t.replace(/\$/g, "");
-
-  // Convert \text{...} to plain text
-  t = t.replace(/\\text\{([^}]*)\}/g, "$1");
-
-  // Convert \mathrm{...} also
-  t = t.replace(/\\mathrm\{([^}]*)\}/g, "$1");
-
-  // Convert superscripts ^{...} -> ^...
-  t = t.replace(/\^\{([^}]*)\}/g, "^$1");
-
-  // Convert subscripts _{...} -> _...
-  t = t.replace(/_\{([^}]*)\}/g, "_$1");
-
-  // Convert single superscript ^x
-  t = t.replace(/\^([A-Za-z0-9])/g, "^$1");
-
-  // Convert single subscript _x
-  t = t.replace(/_([A-Za-z0-9])/g, "_$1");
-
-  // Remove LaTeX spacing commands \, \; \: and spaces
-  t = t.replace(/\\,/g, " ");
-  t = t.replace(/\\;/g, " ");
-  t = t.replace(/\\:/g, " ");
-  
-  // Clean common symbols to unicode if they remain
-  t = t.replace(/\\times/g, "×");
-  t = t.replace(/\\mu/g, "μ");
-  t = t.replace(/\\circ/g, "°");
-  t = t.replace(/\\pi/g, "π");
-  t = t.replace(/\\theta/g, "θ");
-  t = t.replace(/\\Delta/g, "Δ");
-  t = t.replace(/\\Omega/g, "Ω");
-  
-  // Extra trimming of multiple spaces
-  return t.replace(/\s+/g, " ").trim();
-};
+const NUMERIC_INSTRUCTIONS = `
+      - NUMERIC: "numericAnswer" (a number), optional "tolerance" and "unit"; no options.`;
 
-const cleanAndParseJSON = (text: string) => {
+export const cleanAndParseJSON = (text: string): any[] => {
+  if (!text.trim()) return [];
+  let parsed: unknown;
   try {
-    if (!text) return [];
-    
-    // 1. Try to find the array brackets directly first to ignore outer markdown
+    // 1. The whole reply, without markdown fences. Parsed as a whole first so
+    // an object reply isn't mistaken for the first array inside it.
+    const cleanText = text.replace(/```json/g, "").replace(/```/g, "").trim();
+    parsed = JSON.parse(cleanText);
+  } catch (e) {
+    // 2. Fallback: the outermost array brackets, ignoring text around them
     const firstBracket = text.indexOf('[');
     const lastBracket = text.lastIndexOf(']');
-    
-    if (firstBracket !== -1 && lastBracket !== -1) {
-      const jsonCandidate = text.substring(firstBracket, lastBracket + 1);
-      return JSON.parse(jsonCandidate);
+    try {
+      if (firstBracket === -1 || lastBracket === -1) throw e;
+      parsed = JSON.parse(text.substring(firstBracket, lastBracket + 1));
+    } catch (error) {
+      console.error("Failed to parse JSON response:", text, error);
+      throw new ParseError();
     }
-
-    // 2. Fallback: aggressive cleanup
-    let cleanText = text.replace(/```json/g, "").replace(/```/g, "").trim();
-    return JSON.parse(cleanText);
-  } catch (e) {
-    console.error("Failed to parse JSON response:", text, e);
-    return [];
   }
+  // A lone object (or anything else) is not a question list
+  if (!Array.isArray(parsed)) {
+    console.error("JSON response is not an array:", text);
+    throw new ParseError();
+  }
+  return parsed;
+};
+
+// Incremental parser for a streamed JSON array of objects. Feed it text chunks
+// as they arrive; it returns every top-level object completed by that chunk.
+export const createArrayStreamParser = () => {
+  let buffer = "";
+  let scanned = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  return (chunk: string): any[] => {
+    buffer += chunk;
+    const objects: any[] = [];
+    for (; scanned < buffer.length; scanned++) {
+      const ch = buffer[scanned];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === "[" || ch === "{") {
+        depth++;
+        if (ch === "{" && depth === 2) objectStart = scanned;
+      } else if (ch === "]" || ch === "}") {
+        if (ch === "}" && depth === 2 && objectStart !== -1) {
+          try {
+            objects.push(JSON.parse(buffer.substring(objectStart, scanned + 1)));
+          } catch (e) {
+            console.error("Failed to parse streamed question:", e);
+          }
+          objectStart = -1;
+        }
+        depth--;
+      }
+    }
+    return objects;
+  };
 };
 
-const normalizeQuestion = (q: any, index: number, prefix: string): Question | null => {
+// The model's own rating wins; otherwise the question is taken to be at the requested level
+const parseDifficulty = (value: unknown, requested?: Difficulty): Difficulty | undefined => {
+  const level = DIFFICULTY_LEVELS.find(l => l.id === String(value ?? "").toUpperCase());
+  return level ? level.id : requested;
+};
+
+// Requests can start in the same millisecond, so ids also carry a running count
+let questionSerial = 0;
+
+const normalizeQuestion = (q: any, prefix: string, requested?: Difficulty): Question | null => {
   // Handle case-insensitivity and missing fields
   const questionText = q.question || q.Question || q.text || q.query;
-  const optionsList = q.options || q.Options || q.choices || q.answers;
-  
-  // Validate essential fields
-  if (!questionText || !Array.isArray(optionsList) || optionsList.length < 2) {
+  const format = String(q.format || "MCQ").toUpperCase();
+
+  // Repair broken LaTeX but keep it, delimited, for MathRenderer
+  const processText = (txt: string) => sanitizeLatex(String(txt));
+  const processList = (list: any) => (Array.isArray(list) ? list.map(processText) : []);
+
+  const base = {
+    id: `${prefix}-${Date.now()}-${questionSerial++}`,
+    text: processText(questionText || ""),
+    explanation: processText(q.explanation || q.Explanation || "No explanation provided."),
+    difficulty: parseDifficulty(q.difficulty, requested),
+  };
+
+  if (format === "NUMERIC") {
+    const answer = Number(q.numericAnswer ?? q.answer);
+    if (!questionText || !Number.isFinite(answer)) {
+      console.warn("Skipping invalid numeric question:", q);
+      return null;
+    }
+    return {
+      ...base,
+      format: "NUMERIC",
+      answer,
+      tolerance: typeof q.tolerance === "number" ? q.tolerance : undefined,
+      unit: q.unit ? String(q.unit) : undefined,
+    };
+  }
+
+  const optionsList = format === "ASSERTION_REASON"
+    ? ASSERTION_REASON_OPTIONS
+    : q.options || q.Options || q.choices || q.answers;
+
+  // Validate essential fields (option count and uniqueness are checked by the quality filter)
+  if (!questionText || !Array.isArray(optionsList)) {
     console.warn("Skipping invalid question:", q);
     return null;
   }
 
-  // Pipeline: Repair broken tags -> Convert to Human Readable
-  const processText = (txt: string) => latexToSimple(repairMalformedLatex(String(txt)));
-
   // Ensure options are strings and repair latex
   const cleanOptions = optionsList.map((opt: any) => processText(opt));
 
   // Handle correct index (ensure it's a number)
-  let correctIdx = 0;
+  let correctIdx = NaN;
   if (typeof q.correctIndex === 'number') correctIdx = q.correctIndex;
-  else if (typeof q.correctIndex === 'string') correctIdx = parseInt(q.correctIndex) || 0;
+  else if (typeof q.correctIndex === 'string') correctIdx = parseInt(q.correctIndex, 10);
   else if (typeof q.answerIndex === 'number') correctIdx = q.answerIndex;
 
-  // Clamp index
-  if (correctIdx < 0) correctIdx = 0;
-  if (correctIdx >= cleanOptions.length) correctIdx = cleanOptions.length - 1;
+  // An out-of-range answer means the key is wrong; guessing one would mark a wrong option correct
+  if (!Number.isInteger(correctIdx) || correctIdx < 0 || correctIdx >= cleanOptions.length) {
+    console.warn("Skipping question with invalid correctIndex:", q);
+    return null;
+  }
 
-  return {
-    id: `${prefix}-${Date.now()}-${index}`,
-    text: processText(questionText),
-    options: cleanOptions,
-    correctIndex: correctIdx,
-    explanation: processText(q.explanation || q.Explanation || "No explanation provided.")
-  };
+  const choice = { ...base, options: cleanOptions, correctIndex: correctIdx };
+  switch (format) {
+    case "ASSERTION_REASON":
+      return { ...choice, format: "ASSERTION_REASON", assertion: processText(q.assertion || ""), reason: processText(q.reason || "") };
+    case "MATCH":
+      return { ...choice, format: "MATCH", columnA: processList(q.columnA), columnB: processList(q.columnB) };
+    case "STATEMENTS":
+      return { ...choice, format: "STATEMENTS", statements: processList(q.statements) };
+    default:
+      return { ...choice, format: "MCQ" };
+  }
+};
+
+const isMathSubject = (subject: Subject) => subject === Subject.PHYSICS || subject === Subject.CHEMISTRY;
+
+// Physics and Chemistry answers are typeset by MathRenderer with KaTeX, so ask
+// for real LaTeX; sanitizeLatex repairs what the JSON round trip breaks.
+const MATH_PROMPT_RULES = `
+        \nIMPORTANT FOR MATH/FORMULAS:
+        1. Wrap every formula, fraction, vector or exponent in $...$ LaTeX, e.g. "$F = \\frac{mv^2}{r}$".
+        2. Write chemical formulas and equations with mhchem inside math, e.g. "$\\ce{2H2 + O2 -> 2H2O}$".
+        3. Keep units and plain numbers as ordinary text: "2 kg", "3 m/s".
+        4. Escape backslashes correctly in the JSON strings.
+      `;
+
+// Chapters, or chapter topics when only some were picked, for the prompt
+const describePromptScope = (subject: Subject, topicIds: string[]): string => {
+  const scope = describeScope(subject, topicIds);
+  return scope.length > 0 ? scope.join(" | ") : "All Chapters";
 };
 
-export const generateBattleQuestions = async (count: number): Promise<Question[]> => {
+const requestBattleQuestions = async (
+  subject: Subject,
+  scope: string,
+  count: number,
+  onQuestion: (q: ChoiceQuestion) => void,
+  signal?: AbortSignal
+): Promise<void> => {
   try {
-    const prompt = `
-      Generate ${count} multiple-choice questions from NCERT 11th and 12th Biology. 
-      Focus on critical concepts.
+    let prompt = `
+      Generate ${count} questions from NCERT 11th and 12th ${subject}.
+      Syllabus Scope: ${scope}.
+      Each question must have exactly 4 distinct options and a correctIndex from 0 to 3.
+      Focus on critical concepts. Keep questions short enough to read in a quick duel: mostly MCQ,
+      with the occasional ASSERTION_REASON, MATCH or STATEMENTS question.
+      ${FORMAT_INSTRUCTIONS}
       Strictly return a raw JSON array.
     `;
 
-    const response = await ai.models.generateContent({
+    if (isMathSubject(subject)) {
+      prompt += MATH_PROMPT_RULES;
+    }
+
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash",
       contents: prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: RESPONSE_SCHEMA,
+        abortSignal: signal,
       },
     });
 
     const rawData = cleanAndParseJSON(response.text || "[]");
-    return rawData
-      .map((q: any, i: number) => normalizeQuestion(q, i, 'battle'))
-      .filter((q): q is Question => q !== null);
+    rawData
+      .map((q: any) => normalizeQuestion(q, 'battle'))
+      .forEach((q: Question | null) => { if (q && isChoiceQuestion(q)) onQuestion(q); });
 
   } catch (error) {
     console.error("Error generating battle questions:", error);
-    return [];
+    throw toGenerationError(error);
   }
 };
 
-export const generatePracticeQuestions = async (
+export const generateBattleQuestions = (
+  subject: Subject,
+  topicIds: string[],
+  count: number,
+  options: GenerationOptions = {}
+): Promise<ChoiceQuestion[]> =>
+  collectQualityQuestions<ChoiceQuestion>(
+    count,
+    (needed, onQuestion) => requestBattleQuestions(subject, describePromptScope(subject, topicIds), needed, onQuestion, options.signal),
+    options
+  );
+
+// Recent questions quoted back to the model so a follow-up batch doesn't repeat
+// them; repeats that still slip through are dropped by the quality filter.
+const MAX_AVOID_LISTED = 30;
+
+// Streams the response so each question can be used as soon as its JSON
+// object is complete, instead of waiting for the whole array.
+const requestPracticeQuestions = async (
   subject: Subject,
-  chapterNames: string[],
+  scope: string,
   count: number,
-  customPrompt?: string
-): Promise<Question[]> => {
+  customPrompt: string | undefined,
+  difficulty: Difficulty,
+  avoid: Question[],
+  allowNumeric: boolean,
+  onQuestion: (q: Question) => void,
+  signal?: AbortSignal
+): Promise<void> => {
   try {
-    const isMathSubject = subject === Subject.PHYSICS || subject === Subject.CHEMISTRY;
-    
+    const withNumeric = allowNumeric && isMathSubject(subject);
     let prompt = `
-      Generate ${count} multiple-choice questions for the subject: ${subject}.
-      Specific Chapters: ${chapterNames.length > 0 ? chapterNames.join(", ") : "All Chapters"}.
+      Generate ${count} questions for the subject: ${subject}.
+      Syllabus Scope: ${scope}.
       Target Audience: NEET 2026 Aspirants.
-      Format: JSON Array of objects with keys: "question", "options" (array of 4 strings), "correctIndex" (0-3), "explanation".
+      Difficulty: ${difficulty} (${DIFFICULTY_LEVELS.find(l => l.id === difficulty)?.description}).
+      Set "difficulty" on every question to the level it actually is.
+      Mix formats the way a NEET paper does: mostly MCQ, with some ASSERTION_REASON, MATCH and STATEMENTS
+      questions${withNumeric ? " and the odd NUMERIC one" : ""}.
+      ${FORMAT_INSTRUCTIONS}${withNumeric ? NUMERIC_INSTRUCTIONS : ""}
+      Format: JSON Array of objects; every object has "format", "question" and "explanation".
     `;
 
     if (customPrompt) {
       prompt += `\nUser Preference: ${customPrompt}`;
     }
 
-    if (isMathSubject) {
-      prompt += `
-        \nIMPORTANT FOR MATH/FORMULAS:
-        1. Write questions in PLAIN TEXT as much as possible. 
-        2. DO NOT use LaTeX 'ext' or 'text' tags for units. Write "kg", "m/s", "N" directly.
-        3. Example: "Calculate the force if mass is 2 kg." NOT "$m=2\\text{kg}$".
-        4. Use simplified notation.
-      `;
+    if (avoid.length > 0) {
+      const seen = avoid.slice(-MAX_AVOID_LISTED).map(q => `- ${q.text.slice(0, 150)}`).join("\n");
+      prompt += `\nThe student has already been asked these; do not repeat them:\n${seen}`;
+    }
+
+    if (isMathSubject(subject)) {
+      prompt += MATH_PROMPT_RULES;
     }
 
     // Using gemini-2.5-flash for speed and reliability with JSON schema
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash", 
+    const stream = await getClient().models.generateContentStream({
+      model: "gemini-2.5-flash",
       contents: prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: RESPONSE_SCHEMA,
-        systemInstruction: "You are an expert NEET tutor. Output strict valid JSON. Prefer plain text over LaTeX for units and simple numbers.",
+        systemInstruction: "You are an expert NEET tutor. Output strict valid JSON. Use $-delimited LaTeX for math and \\ce{} for chemistry; keep units as plain text.",
+        abortSignal: signal,
       },
     });
 
-    const rawData = cleanAndParseJSON(response.text || "[]");
-    
-    const validQuestions = rawData
-      .map((q: any, i: number) => normalizeQuestion(q, i, 'practice'))
-      .filter((q): q is Question => q !== null);
+    const parseChunk = createArrayStreamParser();
+    let fullText = "";
+    let received = 0;
+    const accept = (raw: any) => {
+      received++;
+      const q = normalizeQuestion(raw, 'practice', difficulty);
+      if (q) onQuestion(q);
+    };
+    for await (const chunk of stream) {
+      fullText += chunk.text || "";
+      parseChunk(chunk.text || "").forEach(accept);
+    }
 
-    return validQuestions;
+    // Nothing streamed as an array (e.g. the model wrapped it oddly): parse the
+    // whole response once, which raises a ParseError if it is unreadable.
+    if (received === 0) cleanAndParseJSON(fullText).forEach(accept);
   } catch (error) {
     console.error("Error generating practice questions:", error);
-    return [];
+    throw toGenerationError(error);
   }
 };
+
+export const generatePracticeQuestions = (
+  subject: Subject,
+  topicIds: string[],
+  count: number,
+  customPrompt?: string,
+  difficulty: Difficulty = 'MEDIUM',
+  options: GenerationOptions = {}
+): Promise<Question[]> =>
+  collectQualityQuestions(
+    count,
+    (needed, onQuestion) =>
+      requestPracticeQuestions(subject, describePromptScope(subject, topicIds), needed, customPrompt, difficulty, options.exclude ?? [], !options.choiceOnly, onQuestion, options.signal),
+    options
+  );
+
+const TUTOR_INSTRUCTION = `
+  You are a patient NEET tutor. The student has just attempted the question below and read its
+  explanation, and now has follow-up doubts. Answer what they ask in a few short paragraphs,
+  grounded in NCERT; if they got it wrong, help them see why their choice fails.
+  Use $-delimited LaTeX for math and \\ce{} for chemistry; keep units as plain text.`;
+
+// Multi-turn: the whole conversation is sent each time, with the question as
+// system context so it doesn't have to be repeated in the chat.
+export const askTutor = (
+  question: Question,
+  answer: number,
+  messages: TutorMessage[],
+  options: GenerationOptions = {}
+): Promise<string> =>
+  retryWithBackoff(async () => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: messages.map(m => ({ role: m.role === 'student' ? 'user' : 'model', parts: [{ text: m.text }] })),
+        config: {
+          systemInstruction: `${TUTOR_INSTRUCTION}\n\n${describeTutorContext(question, answer)}`,
+          abortSignal: options.signal,
+        },
+      });
+      const reply = (response.text || "").trim();
+      if (!reply) throw new ParseError("The tutor's reply was empty.");
+      return sanitizeLatex(reply);
+    } catch (error) {
+      console.error("Error asking the tutor:", error);
+      throw toGenerationError(error);
+    }
+  }, options);
+
+export const geminiQuestionProvider: QuestionProvider = {
+  id: 'gemini',
+  generateBattleQuestions,
+  generatePracticeQuestions,
+  askTutor,
+};
@@ -0,0 +1,135 @@
+import { GenerationOptions } from "../types";
+
+// Typed failures for question generation, so callers can tell a missing key
+// from a flaky network and react accordingly.
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export class GenerationError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Key missing, invalid or not allowed to use the model. Retrying won't help.
+export class AuthError extends GenerationError {
+  constructor(message = 'The Gemini API key is missing or invalid.') {
+    super(message, false);
+  }
+}
+
+// Quota or rate limit hit; usually clears after a short wait.
+export class RateLimitError extends GenerationError {
+  constructor(message = 'Gemini rate limit reached.') {
+    super(message, true);
+  }
+}
+
+// Request never completed, or the service answered with a server error.
+export class NetworkError extends GenerationError {
+  constructor(message = 'Could not reach Gemini.') {
+    super(message, true);
+  }
+}
+
+// The model answered but nothing usable could be read from it. A fresh
+// request normally produces valid output, so this is retried as well.
+export class ParseError extends GenerationError {
+  constructor(message = 'The generated questions could not be read.') {
+    super(message, true);
+  }
+}
+
+// The active provider can't do what was asked, e.g. chat from the offline bank
+export class UnsupportedError extends GenerationError {
+  constructor(message: string) {
+    super(message, false);
+  }
+}
+
+export class CancelledError extends GenerationError {
+  constructor() {
+    super('Generation was cancelled.', false);
+  }
+}
+
+export interface GenerationErrorInfo {
+  title: string;
+  message: string;
+  canRetry: boolean;
+}
+
+// User-facing text for any error thrown while generating questions
+export const describeGenerationError = (error: unknown): GenerationErrorInfo => {
+  if (error instanceof AuthError) {
+    return {
+      title: 'API key problem',
+      message: 'Check GEMINI_API_KEY in .env.local, or set QUESTION_PROVIDER=local to practise offline.',
+      canRetry: false,
+    };
+  }
+  if (error instanceof RateLimitError) {
+    return {
+      title: 'Too many requests',
+      message: 'The Gemini quota is used up for now. Wait a minute and try again, or ask for fewer questions.',
+      canRetry: true,
+    };
+  }
+  if (error instanceof NetworkError) {
+    return {
+      title: 'Connection problem',
+      message: 'Gemini could not be reached. Check your internet connection and try again.',
+      canRetry: true,
+    };
+  }
+  if (error instanceof UnsupportedError) {
+    return { title: 'Not available', message: error.message, canRetry: false };
+  }
+  if (error instanceof ParseError) {
+    return {
+      title: 'Unreadable questions',
+      message: 'The generated questions came back malformed. Trying again usually fixes this.',
+      canRetry: true,
+    };
+  }
+  return {
+    title: 'No questions generated',
+    message: "We couldn't generate valid questions. Try adjusting your chapters or prompt.",
+    canRetry: true,
+  };
+};
+
+const waitUnlessAborted = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `request`, retrying retryable GenerationErrors with exponential backoff
+// (1s, 2s, 4s). Aborting `signal` stops both the request and any pending wait.
+export const retryWithBackoff = async <T>(
+  request: () => Promise<T>,
+  { signal, onRetry }: GenerationOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError();
+      if (!(error instanceof GenerationError) || !error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+      const delayMs = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+      onRetry?.(attempt, delayMs, error);
+      await waitUnlessAborted(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { latexToPlainText, sanitizeLatex } from "./latex";
+
+describe("sanitizeLatex", () => {
+  it("restores commands JSON.parse turned into control characters", () => {
+    expect(sanitizeLatex("$F = \frac{mv^2}{r}$")).toBe("$F = \\frac{mv^2}{r}$");
+    expect(sanitizeLatex("$3 \times 10^8$")).toBe("$3 \\times 10^8$");
+  });
+
+  it("restores dropped backslashes inside math", () => {
+    expect(sanitizeLatex("$3 times 10^{8}$")).toBe("$3 \\times 10^{8}$");
+    expect(sanitizeLatex("$2 pi r$")).toBe("$2 \\pi r$");
+  });
+
+  it("restores dropped backslashes next to math outside delimiters", () => {
+    expect(sanitizeLatex("Speed is 3 times 10^{8} m/s")).toBe("Speed is 3 $\\times 10^{8}$ m/s");
+    expect(sanitizeLatex("Take theta = 30 degrees")).toBe("Take $\\theta$ = 30 degrees");
+    expect(sanitizeLatex("Force is 20 ext{ N}")).toBe("Force is 20 $\\text{ N}$");
+  });
+
+  it("leaves the same words alone in plain prose", () => {
+    const prose = [
+      "The resistance becomes four times its original value.",
+      "How many times does the pendulum swing?",
+      "It increases 3 times over the cycle.",
+      "The pi bond is weaker than the sigma bond.",
+      "Which of the following is theta in the figure?",
+    ];
+    prose.forEach(text => expect(sanitizeLatex(text)).toBe(text));
+  });
+
+  it("converts \\( \\) and \\[ \\] delimiters and balances stray dollars", () => {
+    expect(sanitizeLatex("Area is \\(\\pi r^2\\)")).toBe("Area is $\\pi r^2$");
+    expect(sanitizeLatex("$$E = mc^2$$ holds")).toBe("$$E = mc^2$$ holds");
+    expect(sanitizeLatex("Costs 5$ each")).toBe("Costs 5 each");
+  });
+
+  it("delimits bare LaTeX words", () => {
+    expect(sanitizeLatex("Balance \\ce{H2 + O2 -> H2O} first")).toBe("Balance $\\ce{H2 + O2 -> H2O}$ first");
+  });
+});
+
+describe("latexToPlainText", () => {
+  it("unwraps nested commands into readable text", () => {
+    expect(latexToPlainText("$\\frac{\\sqrt{2}}{3} \\times \\pi$")).toBe("(√(2))/(3) × π");
+  });
+});
@@ -0,0 +1,144 @@
+// LaTeX clean-up for generated text. Questions keep their math as real,
+// `$`-delimited LaTeX so MathRenderer can typeset it with KaTeX (and mhchem
+// for `\ce{}`); latexToPlainText is the readable fallback when that fails.
+
+// JSON.parse turns a single-backslashed "\frac" into a form feed followed by
+// "rac", "\times" into a tab and "imes", and so on. Put the backslashes back.
+const restoreEscapedCommands = (text: string): string =>
+  text
+    .replace(/\f/g, "\\f")
+    .replace(/\x08/g, "\\b")
+    .replace(/\t(?=[a-zA-Z])/g, "\\t")
+    .replace(/\r(?=(ho|ightarrow|angle|m\b|m\{))/g, "\\r")
+    .replace(/\n(?=(u\b|eq|abla|ot|e\b|ewline))/g, "\\n");
+
+// Bare command names that are also English words ("four times its value").
+// Inside $...$ they are always commands; outside, only next to math tokens,
+// and `times` only between two of them ("3 times 10^{5}").
+const BARE_COMMANDS = ["times", "mu", "pi", "theta"];
+const MATH_TOKEN = /[\d{}^_=\\$]/;
+
+const restoreBareCommands = (text: string): string => {
+  const parts = text.split(/(\s+)/); // Words at the even indices
+  let delimiters = 0; // $ and $$ seen so far; odd means inside math
+  return parts
+    .map((word, i) => {
+      const inMath = delimiters % 2 === 1;
+      delimiters += word.match(/\$\$|\$/g)?.length ?? 0;
+      if (!BARE_COMMANDS.includes(word)) return word;
+      const before = MATH_TOKEN.test(parts[i - 2] ?? "");
+      const after = MATH_TOKEN.test(parts[i + 2] ?? "");
+      const isCommand = inMath || (word === "times" ? before && after : before || after);
+      return isCommand ? `\\${word}` : word;
+    })
+    .join("");
+};
+
+// Commands that lost their backslash entirely, e.g. "20 ext{ N}"
+const restoreDroppedBackslashes = (text: string): string =>
+  restoreBareCommands(
+    text
+      .replace(/(\s|^)ext\{/g, "$1\\text{")
+      .replace(/(\s|^)frac\{/g, "$1\\frac{")
+      .replace(/(\s|^)sqrt\{/g, "$1\\sqrt{")
+  );
+
+// \( \) and \[ \] become $ and $$, the only delimiters MathRenderer splits on
+const normalizeDelimiters = (text: string): string =>
+  text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `$$${math}$$`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math}$`);
+
+// A word outside $...$ that contains a command or a braced sub/superscript is
+// math the model forgot to delimit.
+const LATEX_WORD = /\\[a-zA-Z]+|[\^_]\{/;
+
+// Splits on whitespace outside braces, keeping the whitespace as its own token,
+// so "\ce{H2 + O2}" stays one word
+const splitWords = (text: string): string[] => {
+  const tokens: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const ch of text) {
+    const isSpace = /\s/.test(ch);
+    if (depth === 0 && isSpace !== /\s/.test(current.slice(-1)) && current) {
+      tokens.push(current);
+      current = "";
+    }
+    if (ch === "{") depth++;
+    else if (ch === "}") depth = Math.max(0, depth - 1);
+    current += ch;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+};
+
+const delimitBareLatex = (text: string): string =>
+  text
+    .split(/(\$\$[^$]+\$\$|\$[^$]+\$)/g)
+    .map((part, i) => {
+      if (i % 2 === 1) return part; // Already delimited
+      return splitWords(part)
+        .map(word => (LATEX_WORD.test(word) ? `$${word}$` : word))
+        .join("")
+        .replace(/\$(\s+)\$/g, "$1"); // Merge neighbouring math words
+    })
+    .join("");
+
+// An unmatched `$` would swallow the rest of the text into math mode
+const balanceDollars = (text: string): string => {
+  const dollars = text.match(/\$/g)?.length ?? 0;
+  if (dollars % 2 === 0) return text;
+  const last = text.lastIndexOf("$");
+  return text.slice(0, last) + text.slice(last + 1);
+};
+
+export const sanitizeLatex = (text: string): string => {
+  if (!text) return "";
+  // Delimiters first, so backslashes are restored knowing what is already math
+  const repaired = restoreDroppedBackslashes(normalizeDelimiters(restoreEscapedCommands(text)));
+  return delimitBareLatex(balanceDollars(repaired))
+    .replace(/[ \t]+/g, " ")
+    .trim();
+};
+
+// Innermost brace group, used to unwrap nested commands one level at a time
+const GROUP = "\\{([^{}]*)\\}";
+
+const SYMBOLS: Record<string, string> = {
+  times: "×", cdot: "·", div: "÷", pm: "±", degree: "°", circ: "°",
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", Delta: "Δ", epsilon: "ε",
+  theta: "θ", lambda: "λ", mu: "μ", nu: "ν", pi: "π", rho: "ρ", sigma: "σ",
+  tau: "τ", phi: "φ", omega: "ω", Omega: "Ω",
+  rightarrow: "→", to: "→", leftarrow: "←", rightleftharpoons: "⇌",
+  leq: "≤", le: "≤", geq: "≥", ge: "≥", neq: "≠", ne: "≠", approx: "≈", propto: "∝",
+  infty: "∞",
+};
+
+// Readable approximation of LaTeX for places KaTeX can't reach
+export const latexToPlainText = (text: string): string => {
+  if (!text) return "";
+  let t = text.replace(/\$/g, "");
+
+  // Unwrap from the inside out so nested fractions and roots survive
+  let previous;
+  do {
+    previous = t;
+    t = t
+      .replace(new RegExp(`\\\\frac${GROUP}${GROUP}`, "g"), "($1)/($2)")
+      .replace(new RegExp(`\\\\sqrt${GROUP}`, "g"), "√($1)")
+      .replace(new RegExp(`\\\\vec${GROUP}`, "g"), "$1→")
+      .replace(new RegExp(`\\\\(?:text|mathrm|mathbf|ce)${GROUP}`, "g"), "$1")
+      .replace(new RegExp(`\\^${GROUP}`, "g"), "^$1")
+      .replace(new RegExp(`_${GROUP}`, "g"), "_$1");
+  } while (t !== previous);
+
+  t = t
+    .replace(/\\left|\\right/g, "")
+    .replace(/\\[,;:! ]/g, " ")
+    .replace(/\\([a-zA-Z]+)/g, (_, name) => SYMBOLS[name] ?? name)
+    .replace(/->/g, "→")
+    .replace(/<=>/g, "⇌");
+
+  return t.replace(/\s+/g, " ").trim();
+};
@@ -0,0 +1,56 @@
+import { BankQuestion, Difficulty, Question, QuestionProvider, Subject } from "../types";
+import { DIFFICULTY_LEVELS, LOCAL_QUESTION_BANK } from "../constants";
+import { isChoiceQuestion } from "./questionFormat";
+import { isRepeat } from "./questionQuality";
+import { UnsupportedError } from "./generationErrors";
+import { chapterIdsForTopics } from "./syllabus";
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// How many levels apart two difficulties are; untagged questions count as MEDIUM
+const levelDistance = (a: Difficulty = 'MEDIUM', b: Difficulty = 'MEDIUM') =>
+  Math.abs(DIFFICULTY_LEVELS.findIndex(l => l.id === a) - DIFFICULTY_LEVELS.findIndex(l => l.id === b));
+
+// Strip bank metadata so callers get plain Questions, same as Gemini returns.
+// The chapter stays: it is part of a Question.
+const toQuestion = ({ subject, topicId, ...q }: BankQuestion): Question => ({ ...q });
+
+export const createLocalQuestionProvider = (bank: BankQuestion[] = LOCAL_QUESTION_BANK): QuestionProvider => {
+  // Bank questions tagged with a topic must match it; untagged ones match
+  // any selected topic of their chapter. With a difficulty, the closest
+  // levels are used first; the bank is too small to insist on an exact match.
+  // Questions already asked are never picked again.
+  const pickQuestions = (subject: Subject, topicIds: string[], count: number, difficulty?: Difficulty, exclude: Question[] = []): Question[] => {
+    const chapterIds = chapterIdsForTopics(topicIds);
+    const inScope = (q: BankQuestion) =>
+      topicIds.length === 0 || (chapterIds.includes(q.chapterId) && (!q.topicId || topicIds.includes(q.topicId)));
+
+    const pool = bank.filter(q => q.subject === subject && inScope(q) && !isRepeat(q, exclude));
+    const ordered = difficulty
+      ? shuffle(pool).sort((a, b) => levelDistance(a.difficulty, difficulty) - levelDistance(b.difficulty, difficulty))
+      : shuffle(pool);
+    return ordered.slice(0, count).map(toQuestion);
+  };
+
+  return {
+    id: 'local',
+    generateBattleQuestions: async (subject, topicIds, count) =>
+      pickQuestions(subject, topicIds, Infinity).filter(isChoiceQuestion).slice(0, count),
+    generatePracticeQuestions: async (subject, topicIds, count, _customPrompt, difficulty, options = {}) =>
+      options.choiceOnly
+        ? pickQuestions(subject, topicIds, Infinity, difficulty, options.exclude).filter(isChoiceQuestion).slice(0, count)
+        : pickQuestions(subject, topicIds, count, difficulty, options.exclude),
+    askTutor: async () => {
+      throw new UnsupportedError('The offline question bank has no tutor. Use the Gemini provider to ask follow-up questions.');
+    },
+  };
+};
+
+export const localQuestionProvider = createLocalQuestionProvider();
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ChoiceQuestion, MockSection, MockTestPattern, Subject } from "../types";
+import { NEET_MOCK_PATTERN } from "../constants";
+import { generateMockTest, scoreSection } from "./mockTest";
+import { createFakeQuestionProvider } from "./fakeQuestionProvider";
+import { isChoiceQuestion } from "./questionFormat";
+import { getQuestionProvider } from "./questionProvider";
+
+// The real module wraps providers with vetted corrections, which need IndexedDB
+vi.mock("./questionProvider", () => ({ getQuestionProvider: vi.fn() }));
+
+const question = (id: string, correctIndex: number): ChoiceQuestion => ({
+  id,
+  text: `Question ${id}`,
+  options: ['a', 'b', 'c', 'd'],
+  correctIndex,
+});
+
+describe("scoreSection", () => {
+  it("applies +4/-1 marking and leaves unanswered questions at zero", () => {
+    const section: MockSection = { subject: Subject.PHYSICS, questions: [question('1', 0), question('2', 1), question('3', 2), question('4', 3)] };
+    const result = scoreSection(section, [0, 1, 0, null]);
+    expect(result).toEqual({ subject: Subject.PHYSICS, correct: 2, incorrect: 1, unanswered: 1, score: 7, maxScore: 16 });
+  });
+
+  it("counts answers missing from the sheet as unanswered", () => {
+    const section: MockSection = { subject: Subject.BOTANY, questions: [question('1', 0), question('2', 0)] };
+    expect(scoreSection(section, [0], NEET_MOCK_PATTERN).unanswered).toBe(1);
+  });
+});
+
+describe("generateMockTest", () => {
+  const pattern: MockTestPattern = { ...NEET_MOCK_PATTERN, sections: [{ subject: Subject.PHYSICS, questionCount: 10 }] };
+
+  beforeEach(() => {
+    vi.mocked(getQuestionProvider).mockReturnValue(createFakeQuestionProvider());
+  });
+
+  it("keeps typed-answer questions out of the paper", async () => {
+    const [physics] = await generateMockTest(() => {}, pattern);
+    expect(physics.questions).toHaveLength(10);
+    expect(physics.questions.every(isChoiceQuestion)).toBe(true);
+  });
+
+  it("asks for option-based questions only, so no batch is spent topping up", async () => {
+    const fake = createFakeQuestionProvider();
+    const generate = vi.fn(fake.generatePracticeQuestions);
+    vi.mocked(getQuestionProvider).mockReturnValue({ ...fake, generatePracticeQuestions: generate });
+    await generateMockTest(() => {}, pattern);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[0][5]).toMatchObject({ choiceOnly: true });
+  });
+
+  it("fills a full section across batches without repeats", async () => {
+    const [physics] = await generateMockTest(() => {}, { ...pattern, sections: [{ subject: Subject.PHYSICS, questionCount: 45 }] });
+    expect(physics.questions).toHaveLength(45);
+    expect(new Set(physics.questions.map(q => q.text)).size).toBe(45);
+  });
+
+  it("still returns the sections that didn't fail", async () => {
+    const fake = createFakeQuestionProvider();
+    vi.mocked(getQuestionProvider).mockReturnValue({
+      ...fake,
+      generatePracticeQuestions: async (subject, ...rest) => {
+        if (subject === Subject.CHEMISTRY) throw new Error("Chemistry is down");
+        return fake.generatePracticeQuestions(subject, ...rest);
+      },
+    });
+    const sections = await generateMockTest(() => {}, {
+      ...pattern,
+      sections: [{ subject: Subject.PHYSICS, questionCount: 5 }, { subject: Subject.CHEMISTRY, questionCount: 5 }],
+    });
+    expect(sections.map(s => s.subject)).toEqual([Subject.PHYSICS]);
+  });
+});
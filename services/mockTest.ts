@@ -0,0 +1,95 @@
+import { Answer, ChoiceQuestion, MockSection, MockTestPattern, Question, SectionResult, Subject } from "../types";
+import { NEET_MOCK_PATTERN } from "../constants";
+import { getQuestionProvider } from "./questionProvider";
+import { isAnswerCorrect, isChoiceQuestion } from "./questionFormat";
+import { isRepeat } from "./questionQuality";
+
+// Large sections are requested in smaller batches; long single responses
+// from the model are slow and more likely to come back truncated.
+const BATCH_SIZE = 15;
+
+// Sections are requested without NUMERIC questions, as in the NEET paper; any
+// that still arrive are dropped and made up by the next batch
+const MAX_FRUITLESS_BATCHES = 3;
+
+export interface MockProgress {
+  subject: Subject;
+  ready: number;
+  total: number;
+}
+
+const generateSection = async (
+  subject: Subject,
+  questionCount: number,
+  onProgress: (progress: MockProgress) => void
+): Promise<MockSection> => {
+  const questions: ChoiceQuestion[] = [];
+  const seen: Question[] = []; // Everything offered, kept or not, so nothing is offered twice
+  let fruitlessBatches = 0;
+  while (questions.length < questionCount) {
+    const batchSize = Math.min(BATCH_SIZE, questionCount - questions.length);
+    let batch: Question[];
+    try {
+      batch = await getQuestionProvider().generatePracticeQuestions(subject, [], batchSize, undefined, undefined, { exclude: seen, choiceOnly: true });
+    } catch (error) {
+      if (questions.length === 0) throw error;
+      console.error(`Stopping ${subject} section early:`, error);
+      break;
+    }
+    // Repeats of the section so far, by id or near-identical wording, are dropped
+    const unseen = batch.reduce<Question[]>((kept, q) => (isRepeat(q, [...seen, ...kept]) ? kept : [...kept, q]), []);
+    if (unseen.length === 0) break; // Provider exhausted, keep what we have
+    seen.push(...unseen);
+    const fresh = unseen.filter(isChoiceQuestion).slice(0, batchSize);
+    if (fresh.length === 0) {
+      if (++fruitlessBatches >= MAX_FRUITLESS_BATCHES) break;
+      continue;
+    }
+    questions.push(...fresh);
+    onProgress({ subject, ready: questions.length, total: questionCount });
+  }
+  return { subject, questions };
+};
+
+// Sections that fail are left out, so the rest can still be sat; the error
+// only surfaces if every section failed
+export const generateMockTest = async (
+  onProgress: (progress: MockProgress) => void,
+  pattern: MockTestPattern = NEET_MOCK_PATTERN
+): Promise<MockSection[]> => {
+  const results = await Promise.allSettled(pattern.sections.map(s => generateSection(s.subject, s.questionCount, onProgress)));
+  const sections: MockSection[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') sections.push(result.value);
+    else console.error(`Leaving out the ${pattern.sections[i].subject} section:`, result.reason);
+  });
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (sections.length === 0 && failed) throw failed.reason;
+  return sections;
+};
+
+export const scoreSection = (
+  section: MockSection,
+  answers: Answer[],
+  pattern: MockTestPattern = NEET_MOCK_PATTERN
+): SectionResult => {
+  let correct = 0;
+  let incorrect = 0;
+  let unanswered = 0;
+
+  section.questions.forEach((q, i) => {
+    const answer = answers[i] ?? null;
+    if (answer === null) unanswered++;
+    else if (isAnswerCorrect(q, answer)) correct++;
+    else incorrect++;
+  });
+
+  return {
+    subject: section.subject,
+    correct,
+    incorrect,
+    unanswered,
+    score: correct * pattern.marksCorrect + incorrect * pattern.marksIncorrect,
+    maxScore: section.questions.length * pattern.marksCorrect,
+  };
+};
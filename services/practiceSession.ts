@@ -0,0 +1,49 @@
+import { PracticeSession } from "../types";
+import { DEFAULT_SESSION_MAX_AGE_HOURS } from "../constants";
+import { normalizeAnswers } from "./questionFormat";
+
+// One Practice Lab quiz in progress is kept in localStorage, rewritten as the
+// student answers, so a refresh, crash or quit can pick it up from the menu.
+
+const SESSION_STORAGE_KEY = "revise-it:practice-session";
+
+// PRACTICE_SESSION_MAX_AGE_HOURS comes from .env.local
+export const getSessionMaxAgeMs = (): number => {
+  const configured = Number(process.env.PRACTICE_SESSION_MAX_AGE_HOURS);
+  const hours = configured > 0 ? configured : DEFAULT_SESSION_MAX_AGE_HOURS;
+  return hours * 60 * 60 * 1000;
+};
+
+export const saveSession = (session: PracticeSession) => {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error("Failed to save practice session:", error); // e.g. storage full
+  }
+};
+
+export const clearSession = () => localStorage.removeItem(SESSION_STORAGE_KEY);
+
+// The saved session, unless it is missing, unreadable or past its age limit
+export const loadSession = (now: number = Date.now()): PracticeSession | null => {
+  let session: PracticeSession | null = null;
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    session = raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    session = null;
+  }
+  if (!session || !Array.isArray(session.questions) || session.questions.length === 0) return null;
+  if (now - session.savedAt > getSessionMaxAgeMs()) {
+    clearSession();
+    return null;
+  }
+  return { ...session, answers: normalizeAnswers(session.questions, session.answers ?? []) };
+};
+
+// Time spent in the session so far, in seconds
+export const sessionElapsedSeconds = (session: PracticeSession): number =>
+  session.timeTaken.reduce((sum, t) => sum + (t || 0), 0) + session.currentQuestionSeconds;
+
+export const sessionAnsweredCount = (session: PracticeSession): number =>
+  session.answers.filter(a => a !== null).length;
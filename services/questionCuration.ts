@@ -0,0 +1,99 @@
+import { CuratedQuestion, Difficulty, Question, QuestionProvider, ReportReason, Subject } from "../types";
+import { STORES, getAllRecords, getRecord, putRecord } from "./db";
+import { isChoiceQuestion } from "./questionFormat";
+import { isRepeat } from "./questionQuality";
+import { chapterIdsForTopics } from "./syllabus";
+import { shuffle } from "./localQuestionBank";
+
+// A correction is only served again if the question belongs in the syllabus
+export const isVetted = (entry: CuratedQuestion): boolean =>
+  entry.corrected && !entry.reasons.includes('OUT_OF_SYLLABUS');
+
+export const getCuratedQuestions = async (): Promise<CuratedQuestion[]> => {
+  try {
+    return await getAllRecords<CuratedQuestion>(STORES.CURATED_QUESTIONS);
+  } catch (error) {
+    console.error("Failed to load curated questions:", error);
+    return [];
+  }
+};
+
+// Records a report, and a correction when one is given. Reporting a question
+// again keeps the original it was first served as, and any earlier fix.
+export const curateQuestion = async (
+  subject: Subject,
+  question: Question,
+  reasons: ReportReason[],
+  note: string,
+  correction: Question | null
+): Promise<CuratedQuestion> => {
+  let existing: CuratedQuestion | undefined;
+  try {
+    existing = await getRecord<CuratedQuestion>(STORES.CURATED_QUESTIONS, question.id);
+  } catch (error) {
+    console.error("Failed to load curated question:", error);
+  }
+
+  const entry: CuratedQuestion = {
+    id: question.id,
+    subject,
+    original: existing?.original ?? question,
+    question: correction ?? existing?.question ?? question,
+    corrected: !!correction || !!existing?.corrected,
+    reasons,
+    note: note.trim() || undefined,
+    updatedAt: Date.now(),
+  };
+  try {
+    await putRecord(STORES.CURATED_QUESTIONS, entry);
+  } catch (error) {
+    console.error("Failed to save curated question:", error);
+  }
+  return entry;
+};
+
+// --- VETTED BANK ---
+
+// Same scoping as the local bank: no topics means the whole subject, otherwise
+// the question's chapter must be among those picked. Practice also keeps to
+// the requested difficulty; untagged questions fit any.
+const pickVetted = async (subject: Subject, topicIds: string[], difficulty?: Difficulty): Promise<Question[]> => {
+  const chapterIds = chapterIdsForTopics(topicIds);
+  const vetted = (await getCuratedQuestions())
+    .filter(entry => entry.subject === subject && isVetted(entry))
+    .map(entry => entry.question)
+    .filter(q => topicIds.length === 0 || (!!q.chapterId && chapterIds.includes(q.chapterId)))
+    .filter(q => !difficulty || !q.difficulty || q.difficulty === difficulty);
+  return shuffle(vetted);
+};
+
+// Fresh questions that were reported (e.g. from the local bank) are not served again
+const withoutCurated = async <T extends Question>(fresh: T[]): Promise<T[]> => {
+  const curatedIds = new Set((await getCuratedQuestions()).map(entry => entry.id));
+  return fresh.filter(q => !curatedIds.has(q.id));
+};
+
+// Wraps a provider so vetted corrections in scope come first and it is only
+// asked for the rest
+export const withVettedQuestions = (provider: QuestionProvider): QuestionProvider => ({
+  ...provider,
+  generateBattleQuestions: async (subject, topicIds, count, options) => {
+    const vetted = (await pickVetted(subject, topicIds)).filter(isChoiceQuestion).slice(0, count);
+    if (vetted.length >= count) return vetted;
+    const fresh = await provider.generateBattleQuestions(subject, topicIds, count - vetted.length, options);
+    return [...vetted, ...(await withoutCurated(fresh))];
+  },
+  generatePracticeQuestions: async (subject, topicIds, count, customPrompt, difficulty, options = {}) => {
+    const vetted = (await pickVetted(subject, topicIds, difficulty))
+      .filter(q => !isRepeat(q, options.exclude ?? []) && (!options.choiceOnly || isChoiceQuestion(q)))
+      .slice(0, count);
+    if (vetted.length > 0) options.onProgress?.(vetted);
+    if (vetted.length >= count) return vetted;
+    const fresh = await provider.generatePracticeQuestions(subject, topicIds, count - vetted.length, customPrompt, difficulty, {
+      ...options,
+      exclude: [...(options.exclude ?? []), ...vetted],
+      onProgress: options.onProgress && (ready => options.onProgress?.([...vetted, ...ready])),
+    });
+    return [...vetted, ...(await withoutCurated(fresh))];
+  },
+});
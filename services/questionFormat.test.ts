@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { ChoiceQuestion, NumericQuestion } from "../types";
+import { formatAnswer, isAnswerCorrect, normalizeAnswers } from "./questionFormat";
+import { isWellFormed } from "./questionQuality";
+
+const choice: ChoiceQuestion = { id: 'c1', text: 'Pick one', options: ['a', 'b', 'c', 'd'], correctIndex: 0 };
+const work: NumericQuestion = {
+  id: 'n1',
+  text: 'Work done by friction, in J',
+  format: 'NUMERIC',
+  answer: -1,
+  tolerance: 0.05,
+  unit: 'J',
+};
+
+describe("answers", () => {
+  it("accepts negative numeric answers", () => {
+    expect(isWellFormed(work)).toBe(true);
+    expect(isAnswerCorrect(work, -1.02)).toBe(true);
+    expect(isAnswerCorrect(work, 1)).toBe(false);
+    expect(formatAnswer(work, -1)).toBe('-1 J');
+  });
+
+  it("treats null as skipped", () => {
+    expect(isAnswerCorrect(choice, null)).toBe(false);
+    expect(isAnswerCorrect(work, null)).toBe(false);
+    expect(formatAnswer(work, null)).toBe('—');
+  });
+
+  it("reads the -1 older saves used for a skipped option as null", () => {
+    const questions = [choice, choice, work, work, choice];
+    expect(normalizeAnswers(questions, [0, -1, 2.5, null, undefined])).toEqual([0, null, 2.5, null, null]);
+  });
+
+  it("keeps a numeric answer of -1", () => {
+    expect(normalizeAnswers([work, choice], [-1, -1])).toEqual([-1, null]);
+  });
+});
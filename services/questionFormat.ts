@@ -0,0 +1,52 @@
+import { Answer, ChoiceQuestion, Question } from "../types";
+
+// Format-aware helpers, so scoring and display don't each switch on `format`.
+
+export const isChoiceQuestion = (q: Question): q is ChoiceQuestion => q.format !== 'NUMERIC';
+
+export const isAnswerCorrect = (q: Question, answer: Answer): boolean => {
+  if (answer === null) return false; // Skipped
+  if (isChoiceQuestion(q)) return answer === q.correctIndex;
+  return Math.abs(answer - q.answer) <= (q.tolerance ?? 0);
+};
+
+export const optionLabel = (index: number) => String.fromCharCode(65 + index);
+
+// Labels for the left and right columns of a match question
+export const matchLeftLabel = (index: number) => optionLabel(index);
+export const matchRightLabel = (index: number) => ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII'][index] ?? String(index + 1);
+
+// Everything a student reads for a question, in one string. Used to spot
+// duplicates and to judge length; assertion-reason stems are all alike, so
+// the stem alone isn't enough.
+export const questionContentText = (q: Question): string => {
+  switch (q.format) {
+    case 'ASSERTION_REASON':
+      return [q.text, q.assertion, q.reason].join(' ');
+    case 'MATCH':
+      return [q.text, ...q.columnA, ...q.columnB].join(' ');
+    case 'STATEMENTS':
+      return [q.text, ...q.statements].join(' ');
+    default:
+      return q.text;
+  }
+};
+
+// Short text for an answer: the option letter, or the typed value with its unit
+export const formatAnswer = (q: Question, answer: Answer): string => {
+  if (answer === null) return '—';
+  if (isChoiceQuestion(q)) return optionLabel(answer);
+  return q.unit ? `${answer} ${q.unit}` : String(answer);
+};
+
+// Attempts and sessions saved before skips were null marked them with -1.
+// Only an option index can't be -1; a numeric answer of -1 is kept.
+export const normalizeAnswers = (questions: Question[], answers: (number | null | undefined)[]): Answer[] =>
+  answers.map((a, i) => {
+    if (a === undefined || a === null) return null;
+    const q = questions[i];
+    return a === -1 && q && isChoiceQuestion(q) ? null : a;
+  });
+
+export const formatCorrectAnswer = (q: Question): string =>
+  formatAnswer(q, isChoiceQuestion(q) ? q.correctIndex : q.answer);
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { ChoiceQuestion, NumericQuestion, Question, Subject } from "../types";
+import { createQuestionPack, parseQuestionPack, serializePack } from "./questionPack";
+
+const mcq: ChoiceQuestion = {
+  id: 'q1',
+  text: 'Which is a vector?',
+  options: ['Speed', 'Mass', 'Velocity, "with direction"', 'Time'],
+  correctIndex: 2,
+  explanation: 'Velocity has\na direction.',
+  chapterId: 'phy_3',
+  difficulty: 'EASY',
+};
+
+const matchQuestion: Question = {
+  id: 'q2',
+  format: 'MATCH',
+  text: 'Match the quantities',
+  columnA: ['Force', 'Work'],
+  columnB: ['Newton', 'Joule'],
+  options: ['A-I, B-II', 'A-II, B-I', 'A-I, B-I', 'A-II, B-II'],
+  correctIndex: 0,
+};
+
+const numeric: NumericQuestion = {
+  id: 'q3',
+  format: 'NUMERIC',
+  text: 'A 2 kg body accelerates at $3 m/s^2$. Find the force.',
+  answer: 6,
+  tolerance: 0.1,
+  unit: 'N',
+};
+
+const pack = createQuestionPack(Subject.PHYSICS, ['phy_3'], [mcq, matchQuestion, numeric]);
+
+describe("CSV packs", () => {
+  it("round-trips every format, including quoted cells", () => {
+    const { pack: imported, errors } = parseQuestionPack(serializePack(pack, 'csv'), 'csv');
+    expect(errors).toEqual([]);
+    const [a, b, c] = imported!.questions;
+    expect(a).toMatchObject({ text: mcq.text, options: mcq.options, correctIndex: 2, explanation: mcq.explanation, chapterId: 'phy_3', difficulty: 'EASY' });
+    expect(b).toMatchObject({ format: 'MATCH', columnA: ['Force', 'Work'], columnB: ['Newton', 'Joule'], correctIndex: 0 });
+    expect(c).toMatchObject({ format: 'NUMERIC', answer: 6, tolerance: 0.1, unit: 'N' });
+  });
+
+  it("reports missing columns", () => {
+    const { pack: imported, errors } = parseQuestionPack('version,subject\n3,Physics', 'csv');
+    expect(imported).toBeNull();
+    expect(errors[0].message).toMatch(/Missing CSV columns: chapter_ids, question/);
+  });
+
+  it("skips invalid rows and keeps the rest", () => {
+    const lines = serializePack(pack, 'csv').split('\n');
+    lines[1] = lines[1].replace(',C,', ',E,'); // Answer key outside the options
+    const { pack: imported, errors } = parseQuestionPack(lines.join('\n'), 'csv');
+    expect(errors).toEqual([expect.objectContaining({ row: 2, field: 'correctIndex' })]);
+    expect(imported!.questions).toHaveLength(2);
+  });
+
+  it("reports the file line, counting the header, blank lines and multi-line cells", () => {
+    // Line 1 header, 2 blank, 3-4 the first question (its explanation spans two lines), 5 the match question
+    const lines = serializePack(pack, 'csv').split('\n');
+    lines.splice(1, 0, '');
+    lines[4] = lines[4].replace('Match the quantities', '');
+    const { errors } = parseQuestionPack(lines.join('\n'), 'csv');
+    expect(errors).toEqual([expect.objectContaining({ row: 5, field: 'text' })]);
+  });
+});
+
+describe("JSON packs", () => {
+  it("round-trips and keeps the export date", () => {
+    const { pack: imported, errors } = parseQuestionPack(serializePack(pack, 'json'), 'json');
+    expect(errors).toEqual([]);
+    expect(imported).toEqual(pack);
+  });
+
+  it("keeps only the first of two questions sharing an id", () => {
+    const text = serializePack({ ...pack, questions: [mcq, { ...numeric, id: 'q1' }] }, 'json');
+    const { pack: imported, errors } = parseQuestionPack(text, 'json');
+    expect(errors).toEqual([{ row: 2, field: 'id', message: 'Question id "q1" is already used by row 1.' }]);
+    expect(imported!.questions).toEqual([mcq]);
+  });
+
+  it("rejects packs for an unknown chapter", () => {
+    const text = serializePack({ ...pack, chapterIds: ['bot_99'] }, 'json');
+    expect(parseQuestionPack(text, 'json').errors[0].message).toBe('Unknown chapter id "bot_99".');
+  });
+});
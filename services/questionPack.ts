@@ -0,0 +1,427 @@
+import {
+  PackFormat,
+  PackImportResult,
+  PackValidationError,
+  Question,
+  QuestionFormat,
+  QuestionPack,
+  Subject,
+} from "../types";
+import { DIFFICULTY_LEVELS } from "../constants";
+import { isChoiceQuestion } from "./questionFormat";
+import { getFigureError } from "./figures";
+import { findChapter } from "./syllabus";
+
+// v2 added question formats, v3 figures; older packs still import
+export const QUESTION_PACK_VERSION = 3;
+
+const CSV_COLUMNS = [
+  'version',
+  'subject',
+  'chapter_ids',
+  'question',
+  'option_a',
+  'option_b',
+  'option_c',
+  'option_d',
+  'answer',
+  'explanation',
+  'format',
+  'details',
+];
+const OPTION_COLUMNS = ['option_a', 'option_b', 'option_c', 'option_d'];
+const OPTIONAL_COLUMNS = ['explanation', 'format', 'details'];
+
+// Format-specific fields, figures and the chapter and difficulty tags travel
+// as JSON in the CSV `details` column
+type DetailField =
+  | 'assertion' | 'reason' | 'columnA' | 'columnB' | 'statements' | 'tolerance' | 'unit'
+  | 'figure' | 'optionFigures' | 'chapterId' | 'difficulty';
+
+const FORMAT_DETAIL_FIELDS: Record<QuestionFormat, DetailField[]> = {
+  MCQ: [],
+  ASSERTION_REASON: ['assertion', 'reason'],
+  MATCH: ['columnA', 'columnB'],
+  STATEMENTS: ['statements'],
+  NUMERIC: ['tolerance', 'unit'],
+};
+const COMMON_DETAIL_FIELDS: DetailField[] = ['figure', 'optionFigures', 'chapterId', 'difficulty'];
+
+// Each detail field exists on some formats and is absent on the rest, so any
+// question reads as a set of optional detail fields
+const detailValue = (q: Question, field: DetailField): unknown => {
+  const fields: Partial<Record<DetailField, unknown>> = q;
+  return fields[field];
+};
+
+export const createQuestionPack = (
+  subject: Subject,
+  chapterIds: string[],
+  questions: Question[]
+): QuestionPack => ({
+  version: QUESTION_PACK_VERSION,
+  subject,
+  chapterIds,
+  createdAt: new Date().toISOString(),
+  questions,
+});
+
+// --- EXPORT ---
+
+export const escapeCsvCell = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const serializePack = (pack: QuestionPack, format: PackFormat): string => {
+  if (format === 'json') return JSON.stringify(pack, null, 2);
+
+  const rows = pack.questions.map(q => {
+    const format = q.format ?? 'MCQ';
+    const details = Object.fromEntries(
+      [...FORMAT_DETAIL_FIELDS[format], ...COMMON_DETAIL_FIELDS]
+        .filter(field => detailValue(q, field) !== undefined)
+        .map(field => [field, detailValue(q, field)])
+    );
+    return [
+      String(pack.version),
+      pack.subject,
+      pack.chapterIds.join(';'),
+      q.text,
+      ...OPTION_COLUMNS.map((_, i) => (isChoiceQuestion(q) ? q.options[i] ?? '' : '')),
+      isChoiceQuestion(q) ? String.fromCharCode(65 + q.correctIndex) : String(q.answer),
+      q.explanation ?? '',
+      format,
+      Object.keys(details).length > 0 ? JSON.stringify(details) : '',
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\n');
+};
+
+export const downloadPack = (pack: QuestionPack, format: PackFormat) => {
+  const mime = format === 'json' ? 'application/json' : 'text/csv';
+  const blob = new Blob([serializePack(pack, format)], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pack.subject.toLowerCase()}-pack-${pack.createdAt.slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- IMPORT ---
+
+interface CsvRow {
+  line: number; // 1-based file line the row starts on
+  cells: string[];
+}
+
+// Minimal RFC 4180 parser: quoted cells, escaped quotes and embedded newlines.
+// Rows remember their line so errors point at the right place in the file.
+const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else {
+        cell += ch;
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push({ line: rowLine, cells: row });
+      row = []; cell = '';
+      rowLine = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push({ line: rowLine, cells: row }); }
+
+  // Drop blank lines
+  return rows.filter(r => r.cells.some(c => c.trim() !== ''));
+};
+
+const validatePackHeader = (
+  version: unknown,
+  subject: unknown,
+  chapterIds: unknown
+): PackValidationError[] => {
+  const errors: PackValidationError[] = [];
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push({ row: 0, field: 'version', message: 'Missing or invalid pack version.' });
+  } else if (version > QUESTION_PACK_VERSION) {
+    errors.push({ row: 0, field: 'version', message: `Pack version ${version} is newer than supported (${QUESTION_PACK_VERSION}).` });
+  }
+
+  if (!Object.values(Subject).includes(subject as Subject)) {
+    errors.push({ row: 0, field: 'subject', message: `Unknown subject "${String(subject)}".` });
+  }
+
+  if (!Array.isArray(chapterIds) || chapterIds.some(id => typeof id !== 'string')) {
+    errors.push({ row: 0, field: 'chapterIds', message: 'Chapter ids must be a list of strings.' });
+  } else {
+    chapterIds.forEach(id => {
+      const entry = findChapter(id);
+      if (!entry) {
+        errors.push({ row: 0, field: 'chapterIds', message: `Unknown chapter id "${id}".` });
+      } else if (entry.subject !== subject) {
+        errors.push({ row: 0, field: 'chapterIds', message: `Chapter "${id}" does not belong to ${String(subject)}.` });
+      }
+    });
+  }
+
+  return errors;
+};
+
+const isTextList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item.trim() !== '');
+
+const validateQuestion = (
+  raw: any,
+  row: number,
+  errors: PackValidationError[]
+): Question | null => {
+  const before = errors.length;
+  const format: QuestionFormat = raw?.format ?? 'MCQ';
+
+  if (!(format in FORMAT_DETAIL_FIELDS)) {
+    errors.push({ row, field: 'format', message: `Unknown question format "${String(format)}".` });
+    return null;
+  }
+
+  if (typeof raw?.text !== 'string' || !raw.text.trim()) {
+    errors.push({ row, field: 'text', message: 'Question text is required.' });
+  }
+
+  if (raw?.explanation !== undefined && typeof raw.explanation !== 'string') {
+    errors.push({ row, field: 'explanation', message: 'Explanation must be text.' });
+  }
+
+  const figureError = raw?.figure !== undefined ? getFigureError(raw.figure) : null;
+  if (figureError) {
+    errors.push({ row, field: 'figure', message: figureError });
+  }
+
+  if (raw?.chapterId !== undefined && (typeof raw.chapterId !== 'string' || !findChapter(raw.chapterId))) {
+    errors.push({ row, field: 'chapterId', message: `Unknown chapter id "${String(raw.chapterId)}".` });
+  }
+
+  if (raw?.difficulty !== undefined && !DIFFICULTY_LEVELS.some(l => l.id === raw.difficulty)) {
+    errors.push({ row, field: 'difficulty', message: `Difficulty must be one of ${DIFFICULTY_LEVELS.map(l => l.id).join(', ')}.` });
+  }
+
+  const base = {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : `pack-${Date.now()}-${row}`,
+    text: typeof raw?.text === 'string' ? raw.text.trim() : '',
+    explanation: raw?.explanation,
+    ...(raw?.figure !== undefined && { figure: raw.figure }),
+    ...(raw?.chapterId !== undefined && { chapterId: raw.chapterId }),
+    ...(raw?.difficulty !== undefined && { difficulty: raw.difficulty }),
+  };
+
+  if (format === 'NUMERIC') {
+    if (typeof raw.answer !== 'number' || !Number.isFinite(raw.answer)) {
+      errors.push({ row, field: 'answer', message: 'Numeric answer must be a number.' });
+    }
+    if (raw.tolerance !== undefined && (typeof raw.tolerance !== 'number' || raw.tolerance < 0)) {
+      errors.push({ row, field: 'tolerance', message: 'Tolerance must be a non-negative number.' });
+    }
+    if (errors.length > before) return null;
+    return { ...base, format, answer: raw.answer, tolerance: raw.tolerance, unit: raw.unit ? String(raw.unit) : undefined };
+  }
+
+  const options = Array.isArray(raw?.options) ? raw.options : null;
+  if (!options || options.length < 2) {
+    errors.push({ row, field: 'options', message: 'At least two options are required.' });
+  } else if (options.some((opt: unknown) => typeof opt !== 'string' || !opt.trim())) {
+    errors.push({ row, field: 'options', message: 'Options must be non-empty text.' });
+  }
+
+  const optionFigures = raw?.optionFigures;
+  if (optionFigures !== undefined) {
+    if (!Array.isArray(optionFigures) || (options && optionFigures.length !== options.length)) {
+      errors.push({ row, field: 'optionFigures', message: 'Option figures must be a list with one entry (or null) per option.' });
+    } else {
+      optionFigures.forEach((figure: unknown, i: number) => {
+        const problem = figure === null ? null : getFigureError(figure);
+        if (problem) errors.push({ row, field: 'optionFigures', message: `Option ${String.fromCharCode(65 + i)}: ${problem}` });
+      });
+    }
+  }
+
+  const correctIndex = raw?.correctIndex;
+  if (!Number.isInteger(correctIndex) || correctIndex < 0 || (options && correctIndex >= options.length)) {
+    errors.push({ row, field: 'correctIndex', message: 'Correct answer must point to one of the options.' });
+  }
+
+  if (format === 'ASSERTION_REASON' && (typeof raw.assertion !== 'string' || typeof raw.reason !== 'string')) {
+    errors.push({ row, field: 'details', message: 'Assertion-reason questions need an assertion and a reason.' });
+  }
+  if (format === 'MATCH' && (!isTextList(raw.columnA) || !isTextList(raw.columnB) || raw.columnA.length !== raw.columnB.length)) {
+    errors.push({ row, field: 'details', message: 'Match questions need two columns of equal length.' });
+  }
+  if (format === 'STATEMENTS' && !isTextList(raw.statements)) {
+    errors.push({ row, field: 'details', message: 'Statement questions need a list of statements.' });
+  }
+
+  if (errors.length > before) return null;
+
+  const choice = {
+    ...base,
+    options: options.map((opt: string) => opt.trim()),
+    correctIndex,
+    ...(optionFigures !== undefined && { optionFigures }),
+  };
+  switch (format) {
+    case 'ASSERTION_REASON':
+      return { ...choice, format, assertion: raw.assertion, reason: raw.reason };
+    case 'MATCH':
+      return { ...choice, format, columnA: raw.columnA, columnB: raw.columnB };
+    case 'STATEMENTS':
+      return { ...choice, format, statements: raw.statements };
+    default:
+      return raw?.format ? { ...choice, format: 'MCQ' } : choice;
+  }
+};
+
+// Invalid rows are reported and left out; the rest of the pack still imports.
+const buildPack = (
+  version: unknown,
+  subject: unknown,
+  chapterIds: unknown,
+  rawQuestions: { raw: any; row: number }[],
+  errors: PackValidationError[]
+): PackImportResult => {
+  const headerErrors = validatePackHeader(version, subject, chapterIds);
+  if (headerErrors.length > 0) return { pack: null, errors: [...headerErrors, ...errors] };
+
+  // Ids key progress and bookmarks, so a repeated one can't be told apart
+  const firstRowForId = new Map<string, number>();
+  const questions = rawQuestions
+    .map(({ raw, row }) => {
+      const q = validateQuestion(raw, row, errors);
+      if (!q) return null;
+      const firstRow = firstRowForId.get(q.id);
+      if (firstRow !== undefined) {
+        errors.push({ row, field: 'id', message: `Question id "${q.id}" is already used by row ${firstRow}.` });
+        return null;
+      }
+      firstRowForId.set(q.id, row);
+      return q;
+    })
+    .filter((q): q is Question => q !== null);
+
+  if (questions.length === 0) {
+    errors.push({ row: 0, message: 'The pack contains no valid questions.' });
+    return { pack: null, errors };
+  }
+
+  return {
+    pack: {
+      version: version as number,
+      subject: subject as Subject,
+      chapterIds: chapterIds as string[],
+      createdAt: new Date().toISOString(),
+      questions,
+    },
+    errors,
+  };
+};
+
+const parseJsonPack = (text: string): PackImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { pack: null, errors: [{ row: 0, message: 'File is not valid JSON.' }] };
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.questions)) {
+    return { pack: null, errors: [{ row: 0, field: 'questions', message: 'Pack must contain a "questions" list.' }] };
+  }
+
+  const pack = buildPack(
+    data.version,
+    data.subject,
+    data.chapterIds,
+    data.questions.map((raw: any, i: number) => ({ raw, row: i + 1 })),
+    []
+  );
+  if (pack.pack && typeof data.createdAt === 'string') pack.pack.createdAt = data.createdAt;
+  return pack;
+};
+
+const parseCsvPack = (text: string): PackImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header?.cells ?? []).map(c => c.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(c => !OPTIONAL_COLUMNS.includes(c) && !columns.includes(c));
+  if (missing.length > 0) {
+    return { pack: null, errors: [{ row: 0, message: `Missing CSV columns: ${missing.join(', ')}.` }] };
+  }
+  if (rows.length === 0) {
+    return { pack: null, errors: [{ row: 0, message: 'The pack contains no valid questions.' }] };
+  }
+
+  const cell = (row: string[], column: string) => (row[columns.indexOf(column)] ?? '').trim();
+  const errors: PackValidationError[] = [];
+
+  // Pack-level fields are repeated on every row; the first row is authoritative
+  const first = rows[0].cells;
+  const subject = cell(first, 'subject');
+  const chapterIdsCell = cell(first, 'chapter_ids');
+
+  const rawQuestions = rows.map(({ line: row, cells: r }) => {
+    if (cell(r, 'subject') !== subject) {
+      errors.push({ row, field: 'subject', message: `Row subject "${cell(r, 'subject')}" differs from pack subject "${subject}".` });
+    }
+    const answer = cell(r, 'answer').toUpperCase();
+    const format = columns.includes('format') ? cell(r, 'format').toUpperCase() || undefined : undefined;
+    let details: Record<string, unknown> = {};
+    if (columns.includes('details') && cell(r, 'details')) {
+      try {
+        details = JSON.parse(cell(r, 'details'));
+      } catch (e) {
+        errors.push({ row, field: 'details', message: 'Details must be valid JSON.' });
+      }
+    }
+    return {
+      row,
+      raw: {
+        ...details,
+        format,
+        text: cell(r, 'question'),
+        options: OPTION_COLUMNS.map(c => cell(r, c)).filter(opt => opt !== ''),
+        correctIndex: /^[A-D]$/.test(answer) ? answer.charCodeAt(0) - 65 : -1,
+        answer: format === 'NUMERIC' && answer !== '' ? Number(answer) : undefined,
+        explanation: columns.includes('explanation') ? cell(r, 'explanation') || undefined : undefined,
+      },
+    };
+  });
+
+  return buildPack(
+    Number(cell(first, 'version')),
+    subject,
+    chapterIdsCell ? chapterIdsCell.split(';').map(id => id.trim()) : [],
+    rawQuestions.filter(({ row }) => !errors.some(e => e.row === row)),
+    errors
+  );
+};
+
+export const parseQuestionPack = (text: string, format: PackFormat): PackImportResult =>
+  format === 'json' ? parseJsonPack(text) : parseCsvPack(text);
+
+export const importPackFile = async (file: File): Promise<PackImportResult> => {
+  const format: PackFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+  return parseQuestionPack(await file.text(), format);
+};
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The provider is picked when the module loads, so each case loads it afresh
+const loadProviderId = async (configured: string) => {
+  vi.stubEnv("QUESTION_PROVIDER", configured);
+  vi.stubEnv("API_KEY", "");
+  vi.resetModules();
+  const { getQuestionProvider } = await import("./questionProvider");
+  return getQuestionProvider().id;
+};
+
+describe("QUESTION_PROVIDER", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("picks the named provider", async () => {
+    expect(await loadProviderId("fake")).toBe('fake');
+  });
+
+  it.each(["toString", "constructor", "nope"])("falls back to the default for %j", async configured => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await loadProviderId(configured)).toBe('local');
+  });
+});
@@ -0,0 +1,31 @@
+import { QuestionProvider, QuestionProviderId } from "../types";
+import { geminiQuestionProvider } from "./geminiService";
+import { localQuestionProvider } from "./localQuestionBank";
+import { fakeQuestionProvider } from "./fakeQuestionProvider";
+import { withVettedQuestions } from "./questionCuration";
+
+const PROVIDERS: Record<QuestionProviderId, QuestionProvider> = {
+  gemini: geminiQuestionProvider,
+  local: localQuestionProvider,
+  fake: fakeQuestionProvider,
+};
+
+// QUESTION_PROVIDER comes from .env.local (see vite.config.ts). Without it we
+// use Gemini when a key is configured and the offline bank otherwise.
+const resolveConfiguredProvider = (): QuestionProvider => {
+  const configured = process.env.QUESTION_PROVIDER as QuestionProviderId | undefined;
+  // Own keys only, so names like "toString" aren't taken for providers
+  if (configured && Object.hasOwn(PROVIDERS, configured)) return PROVIDERS[configured];
+  if (configured) console.warn(`Unknown QUESTION_PROVIDER "${configured}", falling back to default.`);
+  return process.env.API_KEY ? geminiQuestionProvider : localQuestionProvider;
+};
+
+// Whichever provider is active, questions students have corrected are served first
+let activeProvider: QuestionProvider = withVettedQuestions(resolveConfiguredProvider());
+
+export const getQuestionProvider = (): QuestionProvider => activeProvider;
+
+// Swap the provider at runtime, e.g. from tests or a debug menu.
+export const setQuestionProvider = (provider: QuestionProvider) => {
+  activeProvider = withVettedQuestions(provider);
+};
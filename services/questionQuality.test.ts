@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ChoiceQuestion } from "../types";
+import { filterQuestionBatch } from "./questionQuality";
+
+const mcq = (options: string[], text = 'Which of these conserve momentum?'): ChoiceQuestion => ({
+  id: 'q1',
+  format: 'MCQ',
+  text,
+  options,
+  correctIndex: 3,
+});
+
+describe("filterQuestionBatch option shuffling", () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+  // Always swap with the first slot, so a shuffle is bound to move something
+  const alwaysShuffle = () => vi.spyOn(Math, 'random').mockReturnValue(0);
+
+  it("shuffles options that stand on their own, keeping the key", () => {
+    alwaysShuffle();
+    const [kept] = filterQuestionBatch([mcq(['Elastic collisions', 'Inelastic collisions', 'Explosions', 'Rocket propulsion'])]);
+    expect(kept.options).not.toEqual(['Elastic collisions', 'Inelastic collisions', 'Explosions', 'Rocket propulsion']);
+    expect(kept.options[kept.correctIndex]).toBe('Rocket propulsion');
+  });
+
+  it.each([
+    ['Both A and B'],
+    ['All of the above'],
+    ['None of these'],
+    ['A, B and C'],
+    ['Only (a) and (c)'],
+    ['Option B is wrong'],
+  ])("keeps the written order when an option reads %j", reference => {
+    alwaysShuffle();
+    const options = ['Elastic collisions', 'Inelastic collisions', 'Explosions', reference];
+    const [kept] = filterQuestionBatch([mcq(options)]);
+    expect(kept.options).toEqual(options);
+    expect(kept.correctIndex).toBe(3);
+  });
+});
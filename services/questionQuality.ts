@@ -0,0 +1,144 @@
+import { ChoiceQuestion, GenerationOptions, Question } from "../types";
+import { CancelledError, retryWithBackoff } from "./generationErrors";
+import { isChoiceQuestion, questionContentText } from "./questionFormat";
+import { isValidFigure } from "./figures";
+
+// Quality gate for generated questions. Model output is filtered, deduped and
+// its options shuffled before it reaches a quiz; dropped questions are
+// replaced by asking the generator for more.
+
+const OPTION_COUNT = 4;
+const DUPLICATE_SIMILARITY = 0.8; // Word-set overlap at which two questions count as the same
+const MAX_REFILL_ROUNDS = 3;
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const wordSet = (text: string) => new Set(normalizeText(text).split(" ").filter(Boolean));
+
+// Jaccard similarity of the two questions' word sets
+const similarity = (a: string, b: string): number => {
+  const wordsA = wordSet(a);
+  const wordsB = wordSet(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+export const isNearDuplicate = (a: Question, b: Question): boolean =>
+  similarity(questionContentText(a), questionContentText(b)) >= DUPLICATE_SIMILARITY;
+
+// Already asked: the same question by id (even if reworded since), or one worded nearly the same
+export const isRepeat = (q: Question, asked: Question[]): boolean =>
+  asked.some(other => other.id === q.id || isNearDuplicate(q, other));
+
+export const hasValidOptions = (q: ChoiceQuestion): boolean => {
+  if (q.options.length !== OPTION_COUNT) return false;
+  const distinct = new Set(q.options.map(normalizeText));
+  if (distinct.size !== OPTION_COUNT || distinct.has("")) return false;
+  if (q.optionFigures && (q.optionFigures.length !== OPTION_COUNT || !q.optionFigures.every(f => f === null || isValidFigure(f)))) return false;
+  return Number.isInteger(q.correctIndex) && q.correctIndex >= 0 && q.correctIndex < OPTION_COUNT;
+};
+
+// Options plus whatever the format needs to be answerable
+export const isWellFormed = (q: Question): boolean => {
+  if (q.figure !== undefined && !isValidFigure(q.figure)) return false;
+  switch (q.format) {
+    case 'NUMERIC':
+      return Number.isFinite(q.answer) && (q.tolerance === undefined || q.tolerance >= 0);
+    case 'ASSERTION_REASON':
+      return !!q.assertion.trim() && !!q.reason.trim() && hasValidOptions(q);
+    case 'MATCH':
+      return q.columnA.length >= 2 && q.columnA.length === q.columnB.length && hasValidOptions(q);
+    case 'STATEMENTS':
+      return q.statements.length >= 2 && hasValidOptions(q);
+    default:
+      return hasValidOptions(q);
+  }
+};
+
+// Fisher-Yates over the option order; correctIndex and any option figures follow along
+export const shuffleOptions = <T extends ChoiceQuestion>(q: T, random: () => number = Math.random): T => {
+  const order = q.options.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return {
+    ...q,
+    options: order.map(i => q.options[i]),
+    correctIndex: order.indexOf(q.correctIndex),
+    ...(q.optionFigures && { optionFigures: order.map(i => q.optionFigures![i] ?? null) }),
+  };
+};
+
+// Options like "Both A and B", "All of the above" or "None of these" point at
+// the others by letter or position, which a shuffle would break
+const OPTION_REFERENCES = [
+  /\b(above|below)\b/i,
+  /\b(all|none|any|both|neither) of (these|them|those|the options)\b/i,
+  /\boptions?\s+\(?[A-D]\b/i,
+  /\b[A-D]\)?\s*(,|&|\+|and|or|nor)\s*\(?[A-D]\b/,
+  /\([a-d]\)/,
+];
+
+const refersToOtherOptions = (q: ChoiceQuestion): boolean =>
+  q.options.some(option => OPTION_REFERENCES.some(pattern => pattern.test(option)));
+
+// Assertion-reason and statement-count options follow a fixed conventional
+// order (and the latter are numbers), so only these formats are shuffled,
+// and only when no option refers to another.
+const isShuffleable = (q: ChoiceQuestion): boolean =>
+  (q.format === undefined || q.format === 'MCQ' || q.format === 'MATCH') && !refersToOtherOptions(q);
+
+// Drops invalid questions and repeats of a question already kept (including
+// `existing`, so refills don't repeat earlier batches).
+export const filterQuestionBatch = <T extends Question>(batch: T[], existing: Question[] = []): T[] => {
+  const kept: T[] = [];
+  batch.forEach(q => {
+    if (!isWellFormed(q)) {
+      console.warn("Dropping malformed question:", q);
+      return;
+    }
+    if (isRepeat(q, [...existing, ...kept])) {
+      console.warn("Dropping repeated question:", q.text);
+      return;
+    }
+    kept.push(isChoiceQuestion(q) && isShuffleable(q) ? shuffleOptions(q) as T : q);
+  });
+  return kept;
+};
+
+// Requests batches until `count` questions pass the filter. Each batch hands
+// its questions to `onQuestion` as they become available, so accepted ones can
+// be reported through `onProgress` before the batch finishes. Failed batches
+// are retried with backoff; if one still fails after some questions were
+// collected, the partial set is returned instead of the error. Also gives up
+// after a few rounds that add nothing.
+export const collectQualityQuestions = async <T extends Question>(
+  count: number,
+  requestBatch: (needed: number, onQuestion: (q: T) => void) => Promise<void>,
+  options: GenerationOptions = {}
+): Promise<T[]> => {
+  const questions: T[] = [];
+  let fruitlessRounds = 0;
+  while (questions.length < count && fruitlessRounds < MAX_REFILL_ROUNDS) {
+    const before = questions.length;
+    try {
+      await retryWithBackoff(() => requestBatch(count - questions.length, q => {
+        if (questions.length >= count || options.signal?.aborted) return;
+        const [fresh] = filterQuestionBatch([q], [...(options.exclude ?? []), ...questions]);
+        if (!fresh) return;
+        questions.push(fresh);
+        options.onProgress?.([...questions]);
+      }), options);
+    } catch (error) {
+      if (questions.length === 0 || error instanceof CancelledError) throw error;
+      console.error("Stopping generation early, keeping collected questions:", error);
+      break;
+    }
+    if (questions.length === before) fruitlessRounds++;
+  }
+  return questions;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { ChoiceQuestion, ReviewCard, Subject } from "../types";
+import { gradeAnswer, scheduleReview } from "./spacedRepetition";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const question: ChoiceQuestion = { id: 'q1', text: 'Question', options: ['a', 'b', 'c', 'd'], correctIndex: 2 };
+
+const newCard = (): ReviewCard => ({
+  id: 'q1',
+  question,
+  subject: Subject.ZOOLOGY,
+  easeFactor: 2.5,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: 0,
+  lastReviewedAt: 0,
+});
+
+describe("scheduleReview", () => {
+  it("follows the SM-2 intervals for successful recalls", () => {
+    const first = scheduleReview(newCard(), 5, 0);
+    const second = scheduleReview(first, 5, 0);
+    const third = scheduleReview(second, 5, 0);
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, Math.round(6 * second.easeFactor)]);
+    expect(third.repetitions).toBe(3);
+    expect(first.dueAt).toBe(DAY_MS);
+  });
+
+  it("starts again after a failed recall and lowers the ease", () => {
+    const learned = scheduleReview(scheduleReview(newCard(), 4, 0), 4, 0);
+    const failed = scheduleReview(learned, 1, 100);
+    expect(failed.repetitions).toBe(0);
+    expect(failed.intervalDays).toBe(1);
+    expect(failed.easeFactor).toBeLessThan(learned.easeFactor);
+    expect(failed.lastReviewedAt).toBe(100);
+  });
+
+  it("never lets the ease drop below 1.3", () => {
+    let card = newCard();
+    for (let i = 0; i < 10; i++) card = scheduleReview(card, 0, 0);
+    expect(card.easeFactor).toBe(1.3);
+  });
+});
+
+describe("gradeAnswer", () => {
+  it("grades skipped, wrong, slow and quick answers", () => {
+    expect(gradeAnswer(question, null, 5)).toBe(0);
+    expect(gradeAnswer(question, 0, 5)).toBe(1);
+    expect(gradeAnswer(question, 2, 90)).toBe(3);
+    expect(gradeAnswer(question, 2, 30)).toBe(4);
+    expect(gradeAnswer(question, 2, 10)).toBe(5);
+  });
+});
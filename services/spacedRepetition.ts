@@ -0,0 +1,101 @@
+import { Answer, PracticeAttempt, Question, ReviewCard, ReviewGrade, Subject } from "../types";
+import { STORES, getAllRecords, getRecord, putRecord } from "./db";
+import { isAnswerCorrect } from "./questionFormat";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// --- SM-2 SCHEDULER ---
+
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now: number = Date.now()): ReviewCard => {
+  let { repetitions, intervalDays } = card;
+
+  if (grade >= 3) {
+    if (repetitions === 0) intervalDays = 1;
+    else if (repetitions === 1) intervalDays = 6;
+    else intervalDays = Math.round(intervalDays * card.easeFactor);
+    repetitions += 1;
+  } else {
+    // Failed recall: start the sequence again
+    repetitions = 0;
+    intervalDays = 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  return {
+    ...card,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+// Map a quiz answer onto an SM-2 grade. Slow correct answers count as
+// harder recalls than quick ones.
+export const gradeAnswer = (question: Question, answer: Answer, seconds: number): ReviewGrade => {
+  if (answer === null) return 0;
+  if (!isAnswerCorrect(question, answer)) return 1;
+  if (seconds > 60) return 3;
+  if (seconds > 20) return 4;
+  return 5;
+};
+
+const createReviewCard = (question: Question, subject: Subject, now: number): ReviewCard => ({
+  id: question.id,
+  question,
+  subject,
+  easeFactor: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: now,
+  lastReviewedAt: now,
+});
+
+// --- DECK ---
+
+// File every wrong or skipped question of a finished attempt into the deck.
+// Questions already in the deck are rescheduled as failed recalls.
+export const addMissedToReviewDeck = async (attempt: PracticeAttempt): Promise<void> => {
+  const now = Date.now();
+  try {
+    for (let i = 0; i < attempt.questions.length; i++) {
+      const question = attempt.questions[i];
+      const grade = gradeAnswer(question, attempt.answers[i], attempt.timeTaken[i]);
+      if (grade >= 3) continue;
+
+      const existing = await getRecord<ReviewCard>(STORES.REVIEW_CARDS, question.id);
+      const card = existing ?? createReviewCard(question, attempt.subject, now);
+      await putRecord(STORES.REVIEW_CARDS, scheduleReview(card, grade, now));
+    }
+  } catch (error) {
+    console.error("Failed to update review deck:", error);
+  }
+};
+
+export const getDueCards = async (now: number = Date.now()): Promise<ReviewCard[]> => {
+  try {
+    const cards = await getAllRecords<ReviewCard>(STORES.REVIEW_CARDS);
+    return cards
+      .filter(card => card.dueAt <= now)
+      .sort((a, b) => a.dueAt - b.dueAt);
+  } catch (error) {
+    console.error("Failed to load review deck:", error);
+    return [];
+  }
+};
+
+export const recordReviews = async (cards: ReviewCard[], grades: ReviewGrade[]): Promise<void> => {
+  const now = Date.now();
+  try {
+    await Promise.all(cards.map((card, i) => putRecord(STORES.REVIEW_CARDS, scheduleReview(card, grades[i], now))));
+  } catch (error) {
+    console.error("Failed to record reviews:", error);
+  }
+};
@@ -0,0 +1,110 @@
+import { Chapter, Subject, Syllabus, SyllabusUnit, Topic } from "../types";
+import { SYLLABI } from "../syllabus";
+
+// Everything outside syllabus/ reads the syllabus through these helpers, so a
+// new syllabus file only has to be registered, not wired into components.
+
+export interface ChapterEntry {
+  chapter: Chapter;
+  subject: Subject;
+  unit: SyllabusUnit;
+}
+
+interface TopicEntry {
+  topic: Topic;
+  chapter: Chapter;
+}
+
+// Authoring mistakes worth flagging when a syllabus loads
+export const findSyllabusProblems = (syllabus: Syllabus): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const checkId = (id: string) => {
+    if (seen.has(id)) problems.push(`Duplicate id "${id}".`);
+    seen.add(id);
+  };
+
+  Object.values(Subject).forEach(subject => {
+    const entry = syllabus.subjects.find(s => s.subject === subject);
+    if (!entry) {
+      problems.push(`${subject} is missing.`);
+      return;
+    }
+    const chapters = entry.units.flatMap(u => u.chapters);
+    const totalWeightage = chapters.reduce((sum, c) => sum + c.weightage, 0);
+    if (Math.abs(totalWeightage - 100) > 1) {
+      problems.push(`${subject} weightages add up to ${totalWeightage}, not 100.`);
+    }
+    entry.units.forEach(u => {
+      checkId(u.id);
+      u.chapters.forEach(c => {
+        checkId(c.id);
+        if (c.topics.length === 0) problems.push(`Chapter "${c.id}" has no topics.`);
+        c.topics.forEach(t => checkId(t.id));
+      });
+    });
+  });
+
+  return problems;
+};
+
+const resolveConfiguredSyllabus = (): Syllabus => {
+  const latest = SYLLABI[SYLLABI.length - 1];
+  const configured = process.env.SYLLABUS_VERSION;
+  if (!configured) return latest;
+  const match = SYLLABI.find(s => s.version === configured);
+  if (!match) console.warn(`Unknown SYLLABUS_VERSION "${configured}", falling back to ${latest.version}.`);
+  return match ?? latest;
+};
+
+let activeSyllabus: Syllabus;
+let chapterIndex = new Map<string, ChapterEntry>();
+let topicIndex = new Map<string, TopicEntry>();
+
+// Swap the syllabus at runtime, e.g. from tests. Lookups are rebuilt.
+export const setSyllabus = (syllabus: Syllabus) => {
+  findSyllabusProblems(syllabus).forEach(problem => console.warn(`Syllabus ${syllabus.version}: ${problem}`));
+  activeSyllabus = syllabus;
+  chapterIndex = new Map();
+  topicIndex = new Map();
+  syllabus.subjects.forEach(({ subject, units }) => units.forEach(unit => unit.chapters.forEach(chapter => {
+    chapterIndex.set(chapter.id, { chapter, subject, unit });
+    chapter.topics.forEach(topic => topicIndex.set(topic.id, { topic, chapter }));
+  })));
+};
+
+setSyllabus(resolveConfiguredSyllabus());
+
+export const getSyllabus = (): Syllabus => activeSyllabus;
+
+export const getUnits = (subject: Subject): SyllabusUnit[] =>
+  activeSyllabus.subjects.find(s => s.subject === subject)?.units ?? [];
+
+export const getChapters = (subject: Subject): Chapter[] =>
+  getUnits(subject).flatMap(u => u.chapters);
+
+export const findChapter = (chapterId: string): ChapterEntry | undefined => chapterIndex.get(chapterId);
+
+export const topicIdsForChapters = (chapterIds: string[]): string[] =>
+  chapterIds.flatMap(id => chapterIndex.get(id)?.chapter.topics.map(t => t.id) ?? []);
+
+// Chapters touched by a topic selection, in syllabus order. Unknown topic ids
+// (e.g. from a config saved under an older syllabus) are ignored.
+export const chapterIdsForTopics = (topicIds: string[]): string[] => {
+  const chapterIds = new Set(topicIds.map(id => topicIndex.get(id)?.chapter.id).filter(Boolean));
+  return Array.from(chapterIndex.keys()).filter(id => chapterIds.has(id));
+};
+
+// Human-readable scope for prompts and labels: whole chapters by name, partly
+// selected ones with their topics. Empty selection = empty list (whole subject).
+export const describeScope = (subject: Subject, topicIds: string[]): string[] => {
+  const selected = new Set(topicIds);
+  return getChapters(subject)
+    .map(chapter => {
+      const picked = chapter.topics.filter(t => selected.has(t.id));
+      if (picked.length === 0) return null;
+      if (picked.length === chapter.topics.length) return chapter.name;
+      return `${chapter.name} (${picked.map(t => t.name).join('; ')})`;
+    })
+    .filter((line): line is string => line !== null);
+};
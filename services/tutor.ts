@@ -0,0 +1,38 @@
+import { Answer, Question } from "../types";
+import { formatAnswer, formatCorrectAnswer, isChoiceQuestion, matchLeftLabel, matchRightLabel, optionLabel } from "./questionFormat";
+
+// Everything the tutor is told about a question before the student's first
+// message: the question as the student saw it, their answer and the
+// explanation they have already read.
+export const describeTutorContext = (question: Question, answer: Answer): string => {
+  const lines = [`Question: ${question.text}`];
+
+  switch (question.format) {
+    case 'ASSERTION_REASON':
+      lines.push(`Assertion (A): ${question.assertion}`, `Reason (R): ${question.reason}`);
+      break;
+    case 'MATCH':
+      lines.push(
+        `List I: ${question.columnA.map((item, i) => `${matchLeftLabel(i)}. ${item}`).join('; ')}`,
+        `List II: ${question.columnB.map((item, i) => `${matchRightLabel(i)}. ${item}`).join('; ')}`
+      );
+      break;
+    case 'STATEMENTS':
+      question.statements.forEach((statement, i) => lines.push(`Statement ${matchLeftLabel(i)}: ${statement}`));
+      break;
+  }
+  if (question.figure) lines.push(`Figure: ${question.figure.alt ?? 'a diagram the student can see but you cannot'}`);
+
+  if (isChoiceQuestion(question)) {
+    question.options.forEach((option, i) => lines.push(`Option ${optionLabel(i)}: ${option}`));
+  } else if (question.unit) {
+    lines.push(`Answer unit: ${question.unit}`);
+  }
+
+  lines.push(
+    `Correct answer: ${formatCorrectAnswer(question)}`,
+    `Student's answer: ${answer === null ? 'skipped' : formatAnswer(question, answer)}`,
+    `Explanation already shown: ${question.explanation ?? 'none'}`
+  );
+  return lines.join('\n');
+};
@@ -0,0 +1,21 @@
+import { Chapter, NcertClass, SyllabusUnit } from "../types";
+
+// Shorthand for syllabus files. Topic ids are derived from their position
+// (`phy_4.2`), so append new topics rather than inserting them to keep the
+// ids of existing ones.
+
+export const chapter = (
+  id: string,
+  name: string,
+  ncertClass: NcertClass,
+  weightage: number,
+  topics: string[]
+): Chapter => ({
+  id,
+  name,
+  ncertClass,
+  weightage,
+  topics: topics.map((topic, i) => ({ id: `${id}.${i + 1}`, name: topic })),
+});
+
+export const unit = (id: string, name: string, chapters: Chapter[]): SyllabusUnit => ({ id, name, chapters });
@@ -0,0 +1,7 @@
+import { Syllabus } from "../types";
+import { NEET_2024_SYLLABUS } from "./neet-2024";
+
+// Every syllabus the app ships with. To publish an update, add a file next to
+// this one and append it here; the last entry is used unless SYLLABUS_VERSION
+// (see vite.config.ts) names another.
+export const SYLLABI: Syllabus[] = [NEET_2024_SYLLABUS];
@@ -0,0 +1,544 @@
+import { Subject, Syllabus } from "../types";
+import { chapter, unit } from "./define";
+
+// NEET (UG) syllabus as notified by the NMC for 2024 onwards. Weightages are
+// rounded averages of recent papers and sum to 100 per subject.
+export const NEET_2024_SYLLABUS: Syllabus = {
+  version: 'neet-2024',
+  title: 'NEET (UG) 2024 onwards',
+  subjects: [
+    {
+      subject: Subject.PHYSICS,
+      units: [
+        unit('phy_u1', 'Mechanics', [
+          chapter('phy_1', 'Units and Measurements', 11, 2, [
+            'SI units and dimensions',
+            'Dimensional analysis and its applications',
+            'Significant figures',
+            'Errors in measurement',
+          ]),
+          chapter('phy_2', 'Motion in a Straight Line', 11, 2, [
+            'Position, velocity and acceleration',
+            'Uniformly accelerated motion',
+            'Motion graphs',
+            'Relative velocity in one dimension',
+          ]),
+          chapter('phy_3', 'Motion in a Plane', 11, 3, [
+            'Vectors and their resolution',
+            'Projectile motion',
+            'Uniform circular motion',
+            'Relative velocity in two dimensions',
+          ]),
+          chapter('phy_4', 'Laws of Motion', 11, 4, [
+            "Newton's laws of motion",
+            'Conservation of momentum and impulse',
+            'Friction',
+            'Dynamics of circular motion',
+            'Free body diagrams and connected bodies',
+          ]),
+          chapter('phy_5', 'Work, Energy and Power', 11, 4, [
+            'Work done by constant and variable forces',
+            'Kinetic and potential energy',
+            'Work-energy theorem and power',
+            'Conservation of mechanical energy',
+            'Collisions',
+          ]),
+          chapter('phy_6', 'System of Particles and Rotational Motion', 11, 5, [
+            'Centre of mass',
+            'Torque and angular momentum',
+            'Moment of inertia and the axis theorems',
+            'Rolling motion',
+            'Equilibrium of rigid bodies',
+          ]),
+          chapter('phy_7', 'Gravitation', 11, 4, [
+            "Kepler's laws and the law of gravitation",
+            'Acceleration due to gravity and its variation',
+            'Gravitational potential energy',
+            'Escape and orbital velocity',
+            'Satellites',
+          ]),
+        ]),
+        unit('phy_u2', 'Properties of Matter and Thermal Physics', [
+          chapter('phy_8', 'Mechanical Properties of Solids', 11, 2, [
+            "Stress, strain and Hooke's law",
+            'Elastic moduli',
+            'Stress-strain curve and elastic energy',
+          ]),
+          chapter('phy_9', 'Mechanical Properties of Fluids', 11, 3, [
+            "Pressure and Pascal's law",
+            "Bernoulli's principle",
+            'Viscosity and terminal velocity',
+            'Surface tension and capillarity',
+          ]),
+          chapter('phy_10', 'Thermal Properties of Matter', 11, 3, [
+            'Thermal expansion',
+            'Specific heat and calorimetry',
+            'Change of state and latent heat',
+            'Conduction, convection and radiation',
+          ]),
+          chapter('phy_11', 'Thermodynamics', 11, 4, [
+            'Zeroth and first laws of thermodynamics',
+            'Thermodynamic processes',
+            'Second law and heat engines',
+            'Carnot engine and refrigerators',
+          ]),
+          chapter('phy_12', 'Kinetic Theory', 11, 2, [
+            'Kinetic theory of an ideal gas',
+            'Law of equipartition of energy',
+            'Specific heat capacities of gases',
+            'Mean free path',
+          ]),
+        ]),
+        unit('phy_u3', 'Oscillations and Waves', [
+          chapter('phy_13', 'Oscillations', 11, 3, [
+            'Simple harmonic motion',
+            'Energy in SHM',
+            'Spring-mass system and simple pendulum',
+          ]),
+          chapter('phy_14', 'Waves', 11, 3, [
+            'Transverse and longitudinal waves',
+            'Speed of a travelling wave',
+            'Superposition and standing waves',
+            'Beats',
+          ]),
+        ]),
+        unit('phy_u4', 'Electrostatics and Current Electricity', [
+          chapter('phy_15', 'Electric Charges and Fields', 12, 4, [
+            "Coulomb's law",
+            'Electric field and field lines',
+            'Electric dipole',
+            "Gauss's law and its applications",
+          ]),
+          chapter('phy_16', 'Electrostatic Potential and Capacitance', 12, 5, [
+            'Electric potential and equipotential surfaces',
+            'Potential energy of charge systems',
+            'Capacitors and their combinations',
+            'Dielectrics and energy stored in a capacitor',
+          ]),
+          chapter('phy_17', 'Current Electricity', 12, 7, [
+            "Drift velocity and Ohm's law",
+            'Resistivity and combination of resistors',
+            'Cells, EMF and internal resistance',
+            "Kirchhoff's laws",
+            'Wheatstone bridge and meter bridge',
+          ]),
+        ]),
+        unit('phy_u5', 'Magnetism and Electromagnetic Induction', [
+          chapter('phy_18', 'Moving Charges and Magnetism', 12, 5, [
+            'Force on a moving charge',
+            'Biot-Savart law',
+            "Ampere's circuital law and solenoids",
+            'Force and torque on current loops',
+            'Moving coil galvanometer',
+          ]),
+          chapter('phy_19', 'Magnetism and Matter', 12, 2, [
+            'Bar magnet and magnetic dipole',
+            "Earth's magnetism",
+            'Dia-, para- and ferromagnetism',
+          ]),
+          chapter('phy_20', 'Electromagnetic Induction', 12, 3, [
+            "Faraday's and Lenz's laws",
+            'Motional EMF',
+            'Self and mutual inductance',
+          ]),
+          chapter('phy_21', 'Alternating Current', 12, 3, [
+            'AC through R, L and C',
+            'LCR circuits and resonance',
+            'Power in AC circuits',
+            'Transformers',
+          ]),
+        ]),
+        unit('phy_u6', 'Optics and Electromagnetic Waves', [
+          chapter('phy_22', 'Electromagnetic Waves', 12, 2, [
+            'Displacement current',
+            'Properties of electromagnetic waves',
+            'Electromagnetic spectrum',
+          ]),
+          chapter('phy_23', 'Ray Optics and Optical Instruments', 12, 6, [
+            'Reflection and spherical mirrors',
+            'Refraction and total internal reflection',
+            'Lenses and the lens maker formula',
+            'Refraction through a prism',
+            'Microscopes and telescopes',
+          ]),
+          chapter('phy_24', 'Wave Optics', 12, 3, [
+            "Huygens' principle",
+            "Young's double slit experiment",
+            'Single slit diffraction',
+            'Polarisation',
+          ]),
+        ]),
+        unit('phy_u7', 'Modern Physics and Electronics', [
+          chapter('phy_25', 'Dual Nature of Radiation and Matter', 12, 4, [
+            'Photoelectric effect',
+            "Einstein's photoelectric equation",
+            'de Broglie wavelength',
+          ]),
+          chapter('phy_26', 'Atoms', 12, 3, [
+            'Rutherford model',
+            'Bohr model of the hydrogen atom',
+            'Hydrogen spectrum',
+          ]),
+          chapter('phy_27', 'Nuclei', 12, 3, [
+            'Nuclear size and composition',
+            'Mass defect and binding energy',
+            'Nuclear fission and fusion',
+          ]),
+          chapter('phy_28', 'Semiconductor Electronics', 12, 6, [
+            'Intrinsic and extrinsic semiconductors',
+            'p-n junction diode and rectifiers',
+            'Special purpose diodes',
+            'Logic gates',
+          ]),
+        ]),
+      ],
+    },
+    {
+      subject: Subject.CHEMISTRY,
+      units: [
+        unit('chem_u1', 'Physical Chemistry', [
+          chapter('chem_1', 'Some Basic Concepts of Chemistry', 11, 3, [
+            'Laws of chemical combination',
+            'Mole concept and molar mass',
+            'Empirical and molecular formulae',
+            'Stoichiometry and limiting reagent',
+            'Concentration terms',
+          ]),
+          chapter('chem_2', 'Structure of Atom', 11, 5, [
+            'Bohr model and hydrogen spectrum',
+            'Dual nature and uncertainty principle',
+            'Quantum numbers and orbitals',
+            'Electronic configuration',
+          ]),
+          chapter('chem_4', 'Chemical Bonding and Molecular Structure', 11, 9, [
+            'Ionic and covalent bonds',
+            'VSEPR theory and molecular shapes',
+            'Hybridisation',
+            'Molecular orbital theory',
+            'Dipole moment and hydrogen bonding',
+          ]),
+          chapter('chem_5', 'Chemical Thermodynamics', 11, 6, [
+            'First law and enthalpy',
+            "Hess's law and enthalpies of reaction",
+            'Entropy and the second law',
+            'Gibbs energy and spontaneity',
+          ]),
+          chapter('chem_6', 'Equilibrium', 11, 8, [
+            'Law of chemical equilibrium and Kc, Kp',
+            "Le Chatelier's principle",
+            'Ionisation of acids and bases, pH',
+            'Buffer solutions and hydrolysis of salts',
+            'Solubility product',
+          ]),
+          chapter('chem_7', 'Redox Reactions', 11, 2, [
+            'Oxidation number',
+            'Balancing redox reactions',
+          ]),
+          chapter('chem_11', 'Solutions', 12, 4, [
+            'Concentration of solutions',
+            "Raoult's law and ideal solutions",
+            'Colligative properties',
+            "van 't Hoff factor",
+          ]),
+          chapter('chem_12', 'Electrochemistry', 12, 5, [
+            'Galvanic cells and electrode potential',
+            'Nernst equation',
+            'Conductance of electrolytic solutions',
+            "Electrolysis and Faraday's laws",
+          ]),
+          chapter('chem_13', 'Chemical Kinetics', 12, 5, [
+            'Rate of reaction and rate law',
+            'Order and molecularity',
+            'Integrated rate equations and half-life',
+            'Arrhenius equation',
+          ]),
+        ]),
+        unit('chem_u2', 'Inorganic Chemistry', [
+          chapter('chem_3', 'Classification of Elements and Periodicity', 11, 3, [
+            'Modern periodic table',
+            'Periodic trends in atomic and ionic radii',
+            'Ionisation enthalpy and electron gain enthalpy',
+            'Electronegativity and valency',
+          ]),
+          chapter('chem_8', 'p-Block Elements (Group 13-18)', 12, 6, [
+            'Group 13 and 14 elements',
+            'Group 15 elements',
+            'Group 16 elements',
+            'Group 17 elements',
+            'Group 18 elements',
+          ]),
+          chapter('chem_14', 'd-and f-Block Elements', 12, 4, [
+            'Properties of transition elements',
+            'Potassium dichromate and potassium permanganate',
+            'Lanthanoids and actinoids',
+          ]),
+          chapter('chem_15', 'Coordination Compounds', 12, 8, [
+            "Werner's theory and nomenclature",
+            'Isomerism in coordination compounds',
+            'Valence bond theory',
+            'Crystal field theory',
+          ]),
+        ]),
+        unit('chem_u3', 'Organic Chemistry', [
+          chapter('chem_9', 'Organic Chemistry - Basic Principles', 11, 8, [
+            'IUPAC nomenclature',
+            'Isomerism',
+            'Electronic effects',
+            'Reactive intermediates',
+            'Purification and qualitative analysis',
+          ]),
+          chapter('chem_10', 'Hydrocarbons', 11, 5, [
+            'Alkanes',
+            'Alkenes',
+            'Alkynes',
+            'Aromatic hydrocarbons',
+          ]),
+          chapter('chem_16', 'Haloalkanes and Haloarenes', 12, 3, [
+            'Preparation of haloalkanes',
+            'SN1 and SN2 reactions',
+            'Haloarenes',
+          ]),
+          chapter('chem_17', 'Alcohols, Phenols and Ethers', 12, 4, [
+            'Alcohols',
+            'Phenols',
+            'Ethers',
+          ]),
+          chapter('chem_18', 'Aldehydes, Ketones and Carboxylic Acids', 12, 6, [
+            'Preparation of aldehydes and ketones',
+            'Nucleophilic addition reactions',
+            'Named reactions',
+            'Carboxylic acids',
+          ]),
+          chapter('chem_19', 'Amines', 12, 3, [
+            'Preparation of amines',
+            'Basicity of amines',
+            'Diazonium salts',
+          ]),
+          chapter('chem_20', 'Biomolecules', 12, 3, [
+            'Carbohydrates',
+            'Proteins',
+            'Vitamins and nucleic acids',
+          ]),
+        ]),
+      ],
+    },
+    {
+      subject: Subject.BOTANY,
+      units: [
+        unit('bot_u1', 'Diversity in the Living World', [
+          chapter('bot_1', 'The Living World', 11, 2, [
+            'Characteristics of living organisms',
+            'Taxonomic categories',
+            'Binomial nomenclature',
+          ]),
+          chapter('bot_2', 'Biological Classification', 11, 5, [
+            'Five kingdom classification',
+            'Monera and Protista',
+            'Fungi',
+            'Viruses, viroids and lichens',
+          ]),
+          chapter('bot_3', 'Plant Kingdom', 11, 6, [
+            'Algae',
+            'Bryophytes',
+            'Pteridophytes',
+            'Gymnosperms and angiosperms',
+            'Plant life cycles',
+          ]),
+        ]),
+        unit('bot_u2', 'Structural Organisation in Plants', [
+          chapter('bot_4', 'Morphology of Flowering Plants', 11, 7, [
+            'Root, stem and leaf',
+            'Inflorescence and flower',
+            'Fruit and seed',
+            'Floral formulae and families',
+          ]),
+          chapter('bot_5', 'Anatomy of Flowering Plants', 11, 5, [
+            'Meristematic and permanent tissues',
+            'Tissue systems',
+            'Anatomy of dicot and monocot plants',
+            'Secondary growth',
+          ]),
+        ]),
+        unit('bot_u3', 'Cell Structure and Function', [
+          chapter('bot_6', 'Cell: The Unit of Life', 11, 8, [
+            'Cell theory',
+            'Prokaryotic cells',
+            'Cell membrane and cell wall',
+            'Cell organelles',
+            'Nucleus',
+          ]),
+          chapter('bot_7', 'Biomolecules (Botany Context)', 11, 4, [
+            'Primary and secondary metabolites',
+            'Proteins and nucleic acids',
+            'Enzymes',
+          ]),
+          chapter('bot_8', 'Cell Cycle and Cell Division', 11, 6, [
+            'Cell cycle',
+            'Mitosis',
+            'Meiosis',
+          ]),
+        ]),
+        unit('bot_u4', 'Plant Physiology', [
+          chapter('bot_9', 'Photosynthesis in Higher Plants', 11, 5, [
+            'Photosynthetic pigments',
+            'Light reactions',
+            'Calvin cycle',
+            'C4 pathway and photorespiration',
+            'Factors affecting photosynthesis',
+          ]),
+          chapter('bot_10', 'Respiration in Plants', 11, 4, [
+            'Glycolysis',
+            'Fermentation',
+            'Krebs cycle',
+            'Electron transport system',
+            'Respiratory quotient',
+          ]),
+          chapter('bot_11', 'Plant Growth and Development', 11, 4, [
+            'Growth and differentiation',
+            'Plant growth regulators',
+            'Photoperiodism and vernalisation',
+          ]),
+        ]),
+        unit('bot_u5', 'Reproduction', [
+          chapter('bot_12', 'Sexual Reproduction in Flowering Plants', 12, 8, [
+            'Pre-fertilisation structures',
+            'Pollination',
+            'Double fertilisation',
+            'Post-fertilisation events',
+            'Apomixis and polyembryony',
+          ]),
+        ]),
+        unit('bot_u6', 'Genetics and Evolution', [
+          chapter('bot_13', 'Principles of Inheritance and Variation', 12, 10, [
+            "Mendel's laws",
+            'Incomplete dominance and co-dominance',
+            'Linkage and crossing over',
+            'Sex determination',
+            'Mutations and genetic disorders',
+          ]),
+          chapter('bot_14', 'Molecular Basis of Inheritance', 12, 11, [
+            'DNA structure and packaging',
+            'DNA replication',
+            'Transcription',
+            'Genetic code and translation',
+            'Regulation of gene expression',
+            'Human Genome Project and DNA fingerprinting',
+          ]),
+        ]),
+        unit('bot_u7', 'Ecology', [
+          chapter('bot_15', 'Organisms and Populations', 12, 6, [
+            'Population attributes',
+            'Population growth',
+            'Population interactions',
+          ]),
+          chapter('bot_16', 'Ecosystem', 12, 5, [
+            'Productivity and decomposition',
+            'Energy flow',
+            'Ecological pyramids',
+            'Ecological succession',
+          ]),
+          chapter('bot_17', 'Biodiversity and Conservation', 12, 4, [
+            'Patterns of biodiversity',
+            'Loss of biodiversity',
+            'Conservation of biodiversity',
+          ]),
+        ]),
+      ],
+    },
+    {
+      subject: Subject.ZOOLOGY,
+      units: [
+        unit('zoo_u1', 'Diversity and Structural Organisation in Animals', [
+          chapter('zoo_1', 'Animal Kingdom', 11, 11, [
+            'Basis of classification',
+            'Non-chordate phyla',
+            'Chordates',
+          ]),
+          chapter('zoo_2', 'Structural Organisation in Animals', 11, 7, [
+            'Animal tissues',
+            'Morphology and anatomy of the frog',
+          ]),
+        ]),
+        unit('zoo_u2', 'Human Physiology', [
+          chapter('zoo_3', 'Breathing and Exchange of Gases', 11, 5, [
+            'Respiratory organs',
+            'Mechanism of breathing',
+            'Exchange and transport of gases',
+            'Respiratory disorders',
+          ]),
+          chapter('zoo_4', 'Body Fluids and Circulation', 11, 7, [
+            'Blood and lymph',
+            'Human heart and cardiac cycle',
+            'ECG and double circulation',
+            'Disorders of the circulatory system',
+          ]),
+          chapter('zoo_5', 'Excretory Products and their Elimination', 11, 6, [
+            'Human excretory system',
+            'Urine formation',
+            'Regulation of kidney function',
+            'Disorders of the excretory system',
+          ]),
+          chapter('zoo_6', 'Locomotion and Movement', 11, 6, [
+            'Types of movement',
+            'Muscle contraction',
+            'Skeletal system and joints',
+            'Disorders of muscles and bones',
+          ]),
+          chapter('zoo_7', 'Neural Control and Coordination', 11, 6, [
+            'Neuron and nerve impulse',
+            'Synaptic transmission',
+            'Central nervous system',
+          ]),
+          chapter('zoo_8', 'Chemical Coordination and Integration', 11, 7, [
+            'Endocrine glands and hormones',
+            'Hypothalamus and pituitary',
+            'Mechanism of hormone action',
+          ]),
+        ]),
+        unit('zoo_u3', 'Reproduction', [
+          chapter('zoo_9', 'Human Reproduction', 12, 9, [
+            'Male and female reproductive systems',
+            'Gametogenesis',
+            'Menstrual cycle',
+            'Fertilisation and implantation',
+            'Pregnancy, parturition and lactation',
+          ]),
+          chapter('zoo_10', 'Reproductive Health', 12, 5, [
+            'Population control and contraception',
+            'Medical termination of pregnancy',
+            'Sexually transmitted infections',
+            'Infertility and assisted reproduction',
+          ]),
+        ]),
+        unit('zoo_u4', 'Genetics, Evolution and Human Welfare', [
+          chapter('zoo_11', 'Evolution', 12, 7, [
+            'Origin of life',
+            'Evidences of evolution',
+            'Natural selection and Hardy-Weinberg principle',
+            'Human evolution',
+          ]),
+          chapter('zoo_12', 'Human Health and Disease', 12, 10, [
+            'Common diseases in humans',
+            'Immunity',
+            'AIDS and cancer',
+            'Drugs and alcohol abuse',
+          ]),
+        ]),
+        unit('zoo_u5', 'Biotechnology', [
+          chapter('zoo_13', 'Biotechnology: Principles and Processes', 12, 8, [
+            'Tools of recombinant DNA technology',
+            'Cloning vectors',
+            'Processes of recombinant DNA technology',
+            'PCR and bioreactors',
+          ]),
+          chapter('zoo_14', 'Biotechnology and its Applications', 12, 6, [
+            'Applications in agriculture',
+            'Applications in medicine',
+            'Transgenic animals',
+            'Ethical issues',
+          ]),
+        ]),
+      ],
+    },
+  ],
+};
@@ -4,6 +4,13 @@ export enum AppMode {
   BATTLE_GAME = 'BATTLE_GAME',
   PRACTICE_SETUP = 'PRACTICE_SETUP',
   PRACTICE_GAME = 'PRACTICE_GAME',
+  ANALYTICS = 'ANALYTICS',
+  REVIEW = 'REVIEW',
+  MOCK_TEST = 'MOCK_TEST',
+  DECKS = 'DECKS',
+  DECK_PRACTICE = 'DECK_PRACTICE',
+  DECK_BATTLE = 'DECK_BATTLE',
+  PRACTICE_RESUME = 'PRACTICE_RESUME',
 }
 
 export enum Subject {
@@ -13,29 +20,404 @@ export enum Subject {
   CHEMISTRY = 'Chemistry',
 }
 
-export interface Question {
+export type QuestionFormat = 'MCQ' | 'ASSERTION_REASON' | 'MATCH' | 'STATEMENTS' | 'NUMERIC';
+
+// Where a figure's image comes from: inline SVG markup, a file under public/,
+// or an embedded data:image URI
+export type FigureKind = 'SVG' | 'ASSET' | 'DATA_URI';
+
+// A diagram attached to a question or to one of its options
+export interface Figure {
+  kind: FigureKind;
+  source: string; // SVG markup, asset path or data URI, depending on `kind`
+  alt?: string;
+}
+
+// How hard a question is meant to be, relative to NEET
+export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+interface QuestionBase {
   id: string;
-  text: string;
+  text: string; // Stem; the format-specific fields below carry the rest
+  explanation?: string;
+  figure?: Figure;
+  chapterId?: string; // Chapter the question was generated for, when known
+  difficulty?: Difficulty; // Unset for untagged questions, which count as MEDIUM
+}
+
+interface ChoiceQuestionBase extends QuestionBase {
   options: string[];
   correctIndex: number;
-  explanation?: string;
+  optionFigures?: (Figure | null)[]; // Parallel to `options`; null = text only
+}
+
+// Plain single-answer MCQ. `format` is optional so questions saved before
+// formats existed (attempts, packs, the local bank) still read as MCQs.
+export interface McqQuestion extends ChoiceQuestionBase {
+  format?: 'MCQ';
+}
+
+export interface AssertionReasonQuestion extends ChoiceQuestionBase {
+  format: 'ASSERTION_REASON';
+  assertion: string;
+  reason: string;
+}
+
+// Two-column match; each option is one complete pairing, e.g. "A-II, B-I, C-IV, D-III"
+export interface MatchQuestion extends ChoiceQuestionBase {
+  format: 'MATCH';
+  columnA: string[];
+  columnB: string[];
+}
+
+// "How many of the statements are correct" and similar
+export interface StatementsQuestion extends ChoiceQuestionBase {
+  format: 'STATEMENTS';
+  statements: string[];
+}
+
+// Typed numeric answer, which may be negative (e.g. a charge or work done)
+export interface NumericQuestion extends QuestionBase {
+  format: 'NUMERIC';
+  answer: number;
+  tolerance?: number; // Accepted absolute difference; unset = exact
+  unit?: string;
+}
+
+export type ChoiceQuestion = McqQuestion | AssertionReasonQuestion | MatchQuestion | StatementsQuestion;
+
+export type Question = ChoiceQuestion | NumericQuestion;
+
+// Option index, or the typed value for a numeric question; null = skipped
+export type Answer = number | null;
+
+// --- Syllabus: subject → unit → chapter → topic ---
+
+export type NcertClass = 11 | 12;
+
+export interface Topic {
+  id: string;
+  name: string;
 }
 
 export interface Chapter {
+  id: string; // Stable across syllabus versions; attempts, packs and the bank refer to it
+  name: string;
+  ncertClass: NcertClass;
+  weightage: number; // Approximate share of the subject's questions in past papers, in %
+  topics: Topic[];
+}
+
+export interface SyllabusUnit {
   id: string;
   name: string;
+  chapters: Chapter[];
+}
+
+export interface SubjectSyllabus {
   subject: Subject;
+  units: SyllabusUnit[];
+}
+
+export interface Syllabus {
+  version: string; // e.g. "neet-2024"; picked with SYLLABUS_VERSION
+  title: string;
+  subjects: SubjectSyllabus[];
+}
+
+// How a wrong answer is treated in Battle Arena
+export type ScoringRule = 'OPPONENT_GETS_POINT' | 'PENALTY_ONLY' | 'NO_PENALTY';
+
+export type BotTier = 'EASY' | 'MEDIUM' | 'HARD';
+
+export interface BotProfile {
+  accuracy: number; // Chance of picking the right option on an average question
+  meanResponseMs: number;
+  responseJitterMs: number; // Standard deviation of the response time
 }
 
 export interface BattleConfig {
+  subject: Subject;
+  topicIds: string[]; // Empty = the whole subject
   questionCount: number;
+  scoringRule: ScoringRule;
+  roundTimeLimit?: number; // Seconds per question; unset = no countdown
+  speedBonus: boolean; // Extra point for a fast correct answer
+  botTier?: BotTier; // Set when P2 is played by the bot
+}
+
+// How a practice set's questions are divided between its chapters
+export type BlueprintMode = 'WEIGHTAGE' | 'MANUAL';
+
+export interface BlueprintEntry {
+  chapterId: string;
+  count: number;
 }
 
 export interface PracticeConfig {
   subject: Subject;
-  chapters: string[];
+  topicIds: string[]; // Empty = the whole subject
   questionCount: number;
   customPrompt?: string;
+  difficulty: Difficulty; // Starting level when `adaptive` is on
+  adaptive?: boolean; // Generate in batches whose difficulty follows the running ability estimate
+  blueprintMode?: BlueprintMode; // Defaults to WEIGHTAGE
+  manualSplit?: Record<string, number>; // Chapter id → question count, for MANUAL
+}
+
+export type Player = 'P1' | 'P2';
+
+// What happened in one Battle Arena round, kept for the post-match review
+export interface BattleRoundResult {
+  questionIndex: number;
+  answeredBy: Player | null; // null when the countdown ran out
+  selectedIndex: number | null;
+  isCorrect: boolean;
+  roundWinner: Player | null;
+  reactionMs: number | null;
+}
+
+export type QuestionProviderId = 'gemini' | 'local' | 'fake';
+
+// Called with every question that is ready so far, each time more arrive.
+export type QuestionProgressCallback = (ready: Question[]) => void;
+
+export interface GenerationOptions {
+  onProgress?: QuestionProgressCallback; // Streaming providers report partial sets here
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void; // Before each backoff wait
+  signal?: AbortSignal; // Aborting rejects with a CancelledError
+  exclude?: Question[]; // Already asked: providers leave these, and anything near them, out
+  choiceOnly?: boolean; // Practice sets with option-based formats only, no NUMERIC (e.g. a NEET mock)
+}
+
+// One turn of an "Ask the tutor" conversation about a reviewed question
+export interface TutorMessage {
+  role: 'student' | 'tutor';
+  text: string;
+  sentAt: number; // Epoch ms
+}
+
+// Source of questions for both game modes. Components only talk to this
+// interface so the app can run against Gemini, an offline bank or a fake.
+// Providers that stream may report partial sets through `onProgress`; the
+// returned promise always resolves with the final set, or rejects with one of
+// the errors in services/generationErrors.ts.
+export interface QuestionProvider {
+  id: QuestionProviderId;
+  // Battles are buzzer rounds, so they only use formats answered by picking an option
+  generateBattleQuestions: (
+    subject: Subject,
+    topicIds: string[], // Empty = the whole subject
+    count: number,
+    options?: GenerationOptions
+  ) => Promise<ChoiceQuestion[]>;
+  generatePracticeQuestions: (
+    subject: Subject,
+    topicIds: string[],
+    count: number,
+    customPrompt?: string,
+    difficulty?: Difficulty,
+    options?: GenerationOptions
+  ) => Promise<Question[]>;
+  // Follow-up chat on a reviewed question. `messages` is the conversation so
+  // far, ending with the student's latest turn; resolves with the tutor's reply.
+  askTutor: (
+    question: Question,
+    answer: Answer, // What the student gave, as in PracticeAttempt.answers
+    messages: TutorMessage[],
+    options?: GenerationOptions
+  ) => Promise<string>;
 }
 
-export type Player = 'P1' | 'P2';
\ No newline at end of file
+export type BankQuestion = Question & {
+  subject: Subject;
+  chapterId: string;
+  topicId?: string;
+};
+
+export type PackFormat = 'json' | 'csv';
+
+// Shareable, versioned set of questions for offline use
+export interface QuestionPack {
+  version: number;
+  subject: Subject;
+  chapterIds: string[];
+  createdAt: string;
+  questions: Question[];
+}
+
+export interface PackValidationError {
+  row: number; // 1-based: the question's position in JSON, its file line in CSV; 0 for pack-level problems
+  field?: string;
+  message: string;
+}
+
+export interface PackImportResult {
+  pack: QuestionPack | null;
+  errors: PackValidationError[];
+}
+
+// Per-chapter score on a results screen
+export interface ChapterResult {
+  chapterId: string;
+  correct: number;
+  total: number;
+  seconds: number;
+}
+
+// A completed practice session, persisted for analytics
+export interface PracticeAttempt {
+  id: string;
+  subject: Subject;
+  chapterIds: string[]; // Empty when the attempt covered all chapters
+  topicIds?: string[]; // Topics picked in the syllabus the attempt was taken under
+  syllabusVersion?: string;
+  completedAt: number; // Epoch ms
+  questions: Question[];
+  answers: Answer[];
+  timeTaken: number[]; // Seconds per question
+  ability?: number; // Final ability estimate (logits), for adaptive sessions
+  tutorChats?: Record<string, TutorMessage[]>; // Question id → tutor conversation
+}
+
+export interface TrendPoint {
+  completedAt: number;
+  accuracy: number; // 0-1
+}
+
+export interface PerformanceStats {
+  attempted: number;
+  correct: number;
+  skipped: number;
+  accuracy: number; // 0-1, over all questions including skipped
+  avgTimePerQuestion: number; // Seconds
+  trend: TrendPoint[]; // One point per attempt, oldest first
+}
+
+// SM-2 recall grade: 0 = blackout ... 5 = perfect recall
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Snapshot of a Practice Lab quiz in progress, so it survives a refresh or quit
+export interface PracticeSession {
+  config: PracticeConfig;
+  questions: Question[];
+  answers: Answer[];
+  timeTaken: number[]; // Seconds per question, as recorded so far
+  currentQIndex: number;
+  currentQuestionSeconds: number; // Time on the current question not yet in timeTaken
+  visited: boolean[];
+  markedForReview: boolean[];
+  blueprint?: BlueprintEntry[]; // Adaptive sessions: the full plan, for the batches still to come
+  savedAt: number; // Epoch ms
+}
+
+// A missed question scheduled for spaced repetition (SM-2)
+export interface ReviewCard {
+  id: string; // Same as question.id
+  question: Question;
+  subject: Subject;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number; // Epoch ms
+  lastReviewedAt: number; // Epoch ms
+}
+
+export type ReportReason = 'WRONG_ANSWER' | 'AMBIGUOUS' | 'OUT_OF_SYLLABUS' | 'OTHER';
+
+// A question a student reported, with their fix if they made one. Corrected
+// questions make up the vetted bank that providers draw on before generating.
+export interface CuratedQuestion {
+  id: string; // Same as original.id
+  subject: Subject;
+  original: Question; // As first served
+  question: Question; // The corrected version; same as `original` until corrected
+  corrected: boolean;
+  reasons: ReportReason[];
+  note?: string;
+  updatedAt: number; // Epoch ms
+}
+
+export interface DeckEntry {
+  question: Question;
+  subject: Subject;
+  addedAt: number; // Epoch ms
+}
+
+// Named set of bookmarked questions, e.g. "Tricky genetics"
+export interface Deck {
+  id: string;
+  name: string;
+  entries: DeckEntry[]; // Oldest first
+  createdAt: number; // Epoch ms
+}
+
+export interface MockTestPattern {
+  durationMinutes: number;
+  marksCorrect: number;
+  marksIncorrect: number; // Negative marking, applied per wrong answer
+  sections: { subject: Subject; questionCount: number }[];
+}
+
+export interface MockSection {
+  subject: Subject;
+  questions: ChoiceQuestion[]; // The NEET paper has no typed-answer questions
+}
+
+export interface SectionResult {
+  subject: Subject;
+  correct: number;
+  incorrect: number;
+  unanswered: number;
+  score: number;
+  maxScore: number;
+}
+
+// Question states shown in the NTA-style palette
+export type PaletteStatus =
+  | 'NOT_VISITED'
+  | 'NOT_ANSWERED'
+  | 'ANSWERED'
+  | 'MARKED'
+  | 'ANSWERED_MARKED';
+
+// --- Online battle (WebSocket relay) ---
+
+export type OnlinePhase = 'WAITING' | 'PLAYING' | 'ROUND_OVER' | 'FINISHED';
+
+type WithoutKey<Q> = Q extends ChoiceQuestion ? Omit<Q, 'correctIndex' | 'explanation'> : never;
+
+// The question of a round still being played, as the relay shows it: without
+// its key or explanation, so neither player can read the answer off the socket
+export type UnrevealedQuestion = WithoutKey<ChoiceQuestion>;
+
+export interface OnlineRoomState {
+  roomCode: string;
+  config: BattleConfig;
+  questions: ChoiceQuestion[]; // Rounds that are over, with their keys; every question once FINISHED
+  currentQuestion: UnrevealedQuestion | null; // Set while a round is PLAYING
+  questionCount: number;
+  currentQIndex: number;
+  scores: Record<Player, number>;
+  phase: OnlinePhase;
+  connected: Record<Player, boolean>;
+  paused: boolean; // A player dropped and the round clock is stopped
+  lastRound: BattleRoundResult | null;
+  rounds: BattleRoundResult[]; // Completed rounds, oldest first
+  roundTimeLeftMs: number | null; // Relative, so device clocks don't matter
+  abandonedBy: Player | null;
+}
+
+export type RelayClientMessage =
+  | { type: 'CREATE_ROOM'; config: BattleConfig; questions: ChoiceQuestion[] }
+  | { type: 'JOIN_ROOM'; roomCode: string }
+  | { type: 'RESUME'; roomCode: string; sessionId: string }
+  | { type: 'ANSWER'; questionIndex: number; selectedIndex: number }
+  | { type: 'LEAVE' };
+
+export type RelayServerMessage =
+  | { type: 'SEAT'; roomCode: string; player: Player; sessionId: string }
+  | { type: 'STATE'; state: OnlineRoomState }
+  | { type: 'ERROR'; code: RelayErrorCode; message: string };
+
+export type RelayErrorCode = 'BAD_REQUEST' | 'ROOM_NOT_FOUND' | 'ROOM_FULL' | 'MATCH_ENDED';
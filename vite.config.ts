@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.QUESTION_PROVIDER': JSON.stringify(env.QUESTION_PROVIDER),
+        'process.env.SYLLABUS_VERSION': JSON.stringify(env.SYLLABUS_VERSION),
+        'process.env.BATTLE_RELAY_URL': JSON.stringify(env.BATTLE_RELAY_URL),
+        'process.env.PRACTICE_SESSION_MAX_AGE_HOURS': JSON.stringify(env.PRACTICE_SESSION_MAX_AGE_HOURS)
       },
       resolve: {
         alias: {
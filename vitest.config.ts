@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests cover the services, which need neither the React plugin nor the
+// .env.local defines of vite.config.ts
+export default defineConfig({
+  test: {
+    include: ['services/**/*.test.ts', 'server/**/*.test.ts'],
+  },
+});